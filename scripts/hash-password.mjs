@@ -0,0 +1,23 @@
+// Prints an ADMIN_PASSWORD_HASH value. Same format as src/lib/password.ts.
+// Usage: npm run hash-password -- 'my password'   (or run without an argument to be prompted)
+import { randomBytes, scryptSync } from 'crypto';
+import { createInterface } from 'readline';
+
+async function readPassword() {
+  if (process.argv[2]) return process.argv[2];
+
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  const password = await new Promise((resolve) => rl.question('Password: ', resolve));
+  rl.close();
+  return password;
+}
+
+const password = await readPassword();
+if (!password) {
+  console.error('No password given');
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+const key = scryptSync(password, salt, 64);
+console.log(`scrypt:${salt.toString('hex')}:${key.toString('hex')}`);
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { getStore } from '@/lib/store';
+
+// GET - A cached image asset, or its thumbnail with ?variant=thumbnail
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'view')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'view') }, { status: 403 });
+  }
+
+  try {
+    const variant = request.nextUrl.searchParams.get('variant') === 'thumbnail' ? 'thumbnail' : 'full';
+    const store = getStore();
+    const asset = await store.getAsset(params.id);
+    const data = asset ? await store.getAssetData(asset.id, variant) : null;
+
+    if (!asset || !data) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+    }
+
+    const etag = `"${asset.contentHash}-${variant}"`;
+    const headers = {
+      // The ID stays the same when the image is replaced in Drive
+      'Cache-Control': 'private, no-cache',
+      ETag: etag,
+    };
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        ...headers,
+        'Content-Type': variant === 'thumbnail' ? asset.thumbnailMimeType : asset.mimeType,
+        'Content-Length': String(data.length),
+        // SVGs are cached unchanged; served from this origin, a script inside one must not run
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'; sandbox",
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching asset:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch asset' },
+      { status: 500 }
+    );
+  }
+}
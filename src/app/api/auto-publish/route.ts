@@ -1,200 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions, getAccessTokenFromRefreshToken } from '@/lib/auth';
-import { getContentRepoData, updateRowAfterPublish, sheetRowToMetadata, SheetRow } from '@/lib/google-sheets';
-import { getDocumentContent, extractDriveFileId } from '@/lib/google-drive';
-import { processDocument, extractTitleFromContent } from '@/lib/document-processor';
-import { downloadFeaturedImage } from '@/lib/featured-image';
-import { uploadFeaturedImage } from '@/lib/featured-image';
-import { createPost, updatePost, getOrCreateCategory, getOrCreateTags } from '@/lib/wordpress';
-import { DocumentMetadata, WordPressPost } from '@/types';
-
-// Status values that trigger auto-publish
-const READY_STATUSES = ['ready to post', 'ready', 'readytopost', 'publish'];
-
-function generateSlug(title: string): string {
-  return title
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-')
-    .trim();
-}
+import { forbiddenMessage, getSessionRole, hasPermission, Permission } from '@/lib/roles';
+import { getContentRepoData } from '@/lib/google-sheets';
+import { acquireRunLock, enqueuePublishRow, isReadyRow, previewRow, releaseRunLock } from '@/lib/auto-publish';
+import { finishRun, getRunTrigger, startRun } from '@/lib/publish-history';
+import { AutoPublishPreview, PublishRun } from '@/types';
 
-/**
- * Parses a date string from the sheet (various formats) into ISO format for WordPress.
- * Returns undefined if the date can't be parsed.
- */
-function parsePostDate(dateStr: string): string | undefined {
-  if (!dateStr) return undefined;
-
-  const trimmed = dateStr.trim();
-
-  // Try parsing with Date constructor (handles M/D/YYYY, YYYY-MM-DD, etc.)
-  const parsed = new Date(trimmed);
-  if (!isNaN(parsed.getTime())) {
-    // Format as YYYY-MM-DDTHH:MM:SS for WordPress
-    const year = parsed.getFullYear();
-    const month = String(parsed.getMonth() + 1).padStart(2, '0');
-    const day = String(parsed.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}T12:00:00`;
-  }
+const LOCKED_MESSAGE = 'Auto-publish is already running. Try again once the current run has finished.';
 
-  return undefined;
+function isDryRun(value: unknown): boolean {
+  return value === true || value === 'true' || value === '1';
 }
 
-interface PublishResult {
-  row: number;
-  title: string;
-  success: boolean;
-  postId?: number;
-  postUrl?: string;
-  error?: string;
-}
-
-async function publishRow(
-  accessToken: string,
-  row: SheetRow
-): Promise<PublishResult> {
-  const result: PublishResult = {
-    row: row.rowIndex,
-    title: row.title || row.blogPost,
-    success: false,
-  };
-
-  try {
-    // 1. Get document content from Drive
-    const driveFileId = extractDriveFileId(row.blogLink);
-    if (!driveFileId) {
-      result.error = 'No valid Drive link in Column K (Blog Link)';
-      return result;
-    }
-
-    let content = '';
-    try {
-      const rawHtml = await getDocumentContent(accessToken, driveFileId, 'application/vnd.google-apps.document');
-      content = await processDocument(rawHtml, 'application/vnd.google-apps.document', row.blogPost || row.title);
-
-      // Extract and remove title from content
-      const { title: extractedTitle, contentWithoutTitle } = extractTitleFromContent(content);
-      content = contentWithoutTitle;
-    } catch (driveError) {
-      result.error = `Failed to fetch document: ${driveError}`;
-      return result;
-    }
-
-    if (!content) {
-      result.error = 'Document has no content';
-      return result;
-    }
-
-    // 2. Build metadata from sheet
-    const sheetMetadata = sheetRowToMetadata(row);
-    const postDate = parsePostDate(row.postDate);
-    const metadata: DocumentMetadata = {
-      title: sheetMetadata.title || row.title || row.blogPost,
-      slug: sheetMetadata.slug || generateSlug(sheetMetadata.title || row.title || row.blogPost),
-      description: sheetMetadata.seoDescription || '',
-      excerpt: sheetMetadata.seoDescription || '',
-      category: sheetMetadata.category || 'General',
-      tags: sheetMetadata.tags || [],
-      author: 'CommonCents Team',
-      publishDate: postDate || new Date().toISOString().split('T')[0],
-      seoTitle: sheetMetadata.seoTitle || sheetMetadata.title,
-      seoDescription: sheetMetadata.seoDescription || '',
-      photoLink: sheetMetadata.photoLink,
-      format: 'standard',
-      metadataSource: 'sheet',
-    };
-
-    if (postDate) {
-      console.log(`[Auto-publish Row ${row.rowIndex}] Using post date from sheet: ${postDate}`);
-    }
-
-    // 3. Download and upload featured image
-    let featuredMediaId: number | undefined;
-    if (row.photoLink) {
-      try {
-        console.log(`[Auto-publish Row ${row.rowIndex}] Downloading featured image...`);
-        const imageResult = await downloadFeaturedImage(accessToken, row.photoLink);
-
-        if (imageResult.success && imageResult.data && imageResult.filename && imageResult.mimeType) {
-          const uploadResult = await uploadFeaturedImage(
-            imageResult.data,
-            imageResult.filename,
-            imageResult.mimeType
-          );
-
-          if (uploadResult.success && uploadResult.mediaId) {
-            featuredMediaId = uploadResult.mediaId;
-            console.log(`[Auto-publish Row ${row.rowIndex}] Featured image uploaded: ID ${featuredMediaId}`);
-          }
-        }
-      } catch (imageError) {
-        console.warn(`[Auto-publish Row ${row.rowIndex}] Image upload failed:`, imageError);
-        // Continue without image
-      }
-    }
-
-    // 4. Get/create category and tags
-    const categoryId = await getOrCreateCategory(metadata.category);
-    const tagIds = metadata.tags.length > 0 ? await getOrCreateTags(metadata.tags) : [];
-
-    // 5. Create or update WordPress post
-    const post: WordPressPost = {
-      title: metadata.title,
-      content,
-      excerpt: metadata.excerpt,
-      slug: metadata.slug,
-      status: 'publish',
-      date: postDate,
-      categories: [categoryId],
-      tags: tagIds,
-      featured_media: featuredMediaId,
-      format: 'standard',
-      meta: {
-        _yoast_wpseo_title: metadata.seoTitle || metadata.title,
-        _yoast_wpseo_metadesc: metadata.seoDescription || metadata.excerpt,
-      },
-    };
-
-    let wpResult;
-    const existingWpId = row.wordpressId ? parseInt(row.wordpressId) : null;
-
-    if (existingWpId) {
-      console.log(`[Auto-publish Row ${row.rowIndex}] Updating existing post: WP ID ${existingWpId}`);
-      wpResult = await updatePost(existingWpId, post);
-    } else {
-      wpResult = await createPost(post);
-    }
-
-    if (!wpResult.success || !wpResult.postId) {
-      result.error = wpResult.error || 'WordPress publish failed';
-      return result;
-    }
-
-    // 6. Update sheet with success
-    await updateRowAfterPublish(accessToken, row.rowIndex, 'Posted', wpResult.postId);
-
-    result.success = true;
-    result.postId = wpResult.postId;
-    result.postUrl = wpResult.postUrl;
-
-    console.log(`[Auto-publish Row ${row.rowIndex}] Successfully published: ${metadata.title} (WP ID: ${wpResult.postId})`);
-
-    return result;
-  } catch (error) {
-    result.error = error instanceof Error ? error.message : 'Unknown error';
-    return result;
-  }
+// Previews need editor access (they run the AI metadata fill); queueing needs publisher
+function checkRole(session: unknown, permission: Permission): NextResponse | null {
+  const role = getSessionRole(session);
+  if (hasPermission(role, permission)) return null;
+  return NextResponse.json({ error: forbiddenMessage(role, permission) }, { status: 403 });
 }
 
 /**
- * GET /api/auto-publish - Check for and publish "ready to post" items
+ * GET /api/auto-publish - Queue a publish job for every "ready to post" item
  * Can be called by:
  * - Cron job (Vercel cron, external service)
  * - Google Apps Script trigger
  * - Manual trigger from admin UI
+ * With ?dryRun=1 nothing is published; the response reports what would happen.
  */
 export async function GET(request: NextRequest) {
   // Check for API key or Vercel cron secret
@@ -211,6 +43,14 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
+  const dryRun = isDryRun(request.nextUrl.searchParams.get('dryRun'));
+
+  // Cron and API key callers are trusted; signed-in users need the role for the action
+  if (!isVercelCron && (!apiKey || apiKey !== expectedKey)) {
+    const denied = checkRole(session, dryRun ? 'process' : 'autoPublish');
+    if (denied) return denied;
+  }
+
   // For cron/API key auth, get token from stored refresh token
   if (!accessToken) {
     accessToken = await getAccessTokenFromRefreshToken();
@@ -222,62 +62,82 @@ export async function GET(request: NextRequest) {
     }
   }
 
+  // One publishing run at a time, taken before the sheet is read so an overlapping
+  // run can't pick up the same rows. A dry run writes nothing and needs no lock.
+  const lockOwner = dryRun ? null : await acquireRunLock();
+  if (!dryRun && !lockOwner) {
+    console.warn('[Auto-publish] Skipped: another run holds the lock');
+    return NextResponse.json({ error: LOCKED_MESSAGE }, { status: 409 });
+  }
+
+  const { trigger, triggeredBy } = getRunTrigger(session?.user?.email, !!isVercelCron);
+  let run: PublishRun | null = null;
+
   try {
-    console.log('[Auto-publish] Checking for ready items...');
+    if (!dryRun) run = await startRun('auto-publish', trigger, triggeredBy);
+
+    console.log(`[Auto-publish] Checking for ready items${dryRun ? ' (dry run)' : ''}...`);
 
     // Fetch all rows from sheet
     const rows = await getContentRepoData(accessToken);
 
-    // Find rows with "ready to post" status (case-insensitive)
-    const readyRows = rows.filter((row) => {
-      const status = row.status.toLowerCase().replace(/\s+/g, '');
-      return READY_STATUSES.some((s) => status === s.replace(/\s+/g, ''));
-    });
+    // Find rows with "ready to post" status
+    const readyRows = rows.filter(isReadyRow);
 
     console.log(`[Auto-publish] Found ${readyRows.length} items ready to post`);
 
-    if (readyRows.length === 0) {
+    if (dryRun) {
+      const previews: AutoPublishPreview[] = [];
+      for (const row of readyRows) {
+        console.log(`[Auto-publish] Previewing row ${row.rowIndex}: ${row.title || row.blogPost}`);
+        previews.push(await previewRow(accessToken, row));
+      }
+
+      const blocked = previews.filter((p) => p.problems.length > 0).length;
       return NextResponse.json({
         success: true,
-        message: 'No items ready to post',
-        processed: 0,
-        results: [],
+        dryRun: true,
+        message: readyRows.length === 0
+          ? 'No items ready to post'
+          : `${readyRows.length} items ready: ${readyRows.length - blocked} would publish, ${blocked} have problems`,
+        processed: previews.length,
+        previews,
       });
     }
 
-    // Process each ready row
-    const results: PublishResult[] = [];
+    // One job per row; the worker (/api/jobs/worker) publishes them with retries
+    const jobs = [];
     for (const row of readyRows) {
-      console.log(`[Auto-publish] Processing row ${row.rowIndex}: ${row.title || row.blogPost}`);
-      const result = await publishRow(accessToken, row);
-      results.push(result);
-
-      // Small delay between posts to avoid rate limiting
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const job = await enqueuePublishRow(row);
+      jobs.push({ id: job.id, row: row.rowIndex, title: row.title || row.blogPost, status: job.status });
     }
 
-    const successful = results.filter((r) => r.success).length;
-    const failed = results.filter((r) => !r.success).length;
+    console.log(`[Auto-publish] Queued ${jobs.length} rows for publishing`);
+
+    const message = jobs.length === 0 ? 'No items ready to post' : `Queued ${jobs.length} items for publishing`;
+    if (run) await finishRun(run, { rows: jobs.map((job) => job.row), message });
 
     return NextResponse.json({
       success: true,
-      message: `Processed ${results.length} items: ${successful} published, ${failed} failed`,
-      processed: results.length,
-      successful,
-      failed,
-      results,
+      message,
+      queued: jobs.length,
+      jobs,
     });
   } catch (error) {
     console.error('[Auto-publish] Error:', error);
+    if (run) await finishRun(run, { error: error instanceof Error ? error.message : 'Auto-publish failed' });
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Auto-publish failed' },
       { status: 500 }
     );
+  } finally {
+    if (lockOwner) await releaseRunLock(lockOwner);
   }
 }
 
 /**
- * POST /api/auto-publish - Publish a specific row (for webhook triggers)
+ * POST /api/auto-publish - Queue a specific row (for webhook triggers)
+ * Pass dryRun: true to preview the row instead.
  */
 export async function POST(request: NextRequest) {
   const session = await getServerSession(authOptions);
@@ -302,30 +162,58 @@ export async function POST(request: NextRequest) {
     }
   }
 
+  let lockOwner: string | null = null;
+  let run: PublishRun | null = null;
+
   try {
-    const { rowIndex } = await request.json();
+    const { rowIndex, dryRun } = await request.json();
 
     if (!rowIndex) {
       return NextResponse.json({ error: 'rowIndex required' }, { status: 400 });
     }
 
+    if (!apiKey || apiKey !== expectedKey) {
+      const denied = checkRole(session, isDryRun(dryRun) ? 'process' : 'autoPublish');
+      if (denied) return denied;
+    }
+
+    if (!isDryRun(dryRun)) {
+      lockOwner = await acquireRunLock();
+      if (!lockOwner) {
+        return NextResponse.json({ error: LOCKED_MESSAGE }, { status: 409 });
+      }
+
+      const { trigger, triggeredBy } = getRunTrigger(session?.user?.email, false);
+      run = await startRun('auto-publish', trigger, triggeredBy);
+    }
+
     // Fetch the specific row
     const rows = await getContentRepoData(accessToken);
     const row = rows.find((r) => r.rowIndex === rowIndex);
 
     if (!row) {
+      if (run) await finishRun(run, { error: `Row ${rowIndex} not found` });
       return NextResponse.json({ error: 'Row not found' }, { status: 404 });
     }
 
-    console.log(`[Auto-publish] Processing specific row ${rowIndex}: ${row.title || row.blogPost}`);
-    const result = await publishRow(accessToken, row);
+    if (isDryRun(dryRun)) {
+      console.log(`[Auto-publish] Previewing specific row ${rowIndex}: ${row.title || row.blogPost}`);
+      return NextResponse.json(await previewRow(accessToken, row));
+    }
+
+    console.log(`[Auto-publish] Queueing specific row ${rowIndex}: ${row.title || row.blogPost}`);
+    const job = await enqueuePublishRow(row);
+    if (run) await finishRun(run, { rows: [row.rowIndex], message: `Queued row ${row.rowIndex} as job ${job.id}` });
 
-    return NextResponse.json(result);
+    return NextResponse.json({ success: true, job });
   } catch (error) {
     console.error('[Auto-publish] Error:', error);
+    if (run) await finishRun(run, { error: error instanceof Error ? error.message : 'Auto-publish failed' });
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Auto-publish failed' },
       { status: 500 }
     );
+  } finally {
+    if (lockOwner) await releaseRunLock(lockOwner);
   }
 }
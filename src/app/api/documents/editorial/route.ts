@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { runEditorialPass } from '@/lib/editorial';
+import { getStore } from '@/lib/store';
+
+// POST - Run an editorial pass over a processed document's content
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'process')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'process') }, { status: 403 });
+  }
+
+  try {
+    const { documentId } = await request.json();
+
+    const document = await getStore().getDocument(documentId);
+    if (!document?.content) {
+      return NextResponse.json(
+        { error: 'Document must be processed before running an editorial pass' },
+        { status: 400 }
+      );
+    }
+
+    const result = await runEditorialPass(document.content);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error running editorial pass:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Editorial pass failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { fetchDriveDocument, isStoredCopyOf } from '@/lib/document-sync';
+import { UnsupportedDocumentError } from '@/lib/document-processor';
+import { getContentRepoData, sheetRowsToDocuments } from '@/lib/google-sheets';
+import { getStore } from '@/lib/store';
+
+// POST - Fetch the current Google Doc content of a published document so the
+// changes can be reviewed before the WordPress post is updated. Nothing is saved.
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Re-syncing rewrites the WordPress post
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'publish')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'publish') }, { status: 403 });
+  }
+
+  const accessToken = (session as any).accessToken;
+  if (!accessToken) {
+    return NextResponse.json({ error: 'Google Drive not connected' }, { status: 400 });
+  }
+
+  try {
+    const { documentId, driveFileId: expectedDriveFileId } = await request.json();
+
+    // The row as it is now; rows published before this app kept a copy are only in the sheet
+    const rows = await getContentRepoData(accessToken);
+    const row = sheetRowsToDocuments(rows).find((doc) => doc.id === documentId);
+    if (!row) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const driveFileId = row.driveFileId;
+    if (!driveFileId) {
+      return NextResponse.json({ error: 'No valid Drive link in the Blog Link column' }, { status: 400 });
+    }
+    if (expectedDriveFileId && expectedDriveFileId !== driveFileId) {
+      return NextResponse.json(
+        { error: 'The sheet row now links to another document; reload the dashboard' },
+        { status: 409 }
+      );
+    }
+
+    // The stored copy is only compared against when it is of the same article
+    const stored = await getStore().getDocument(documentId);
+    if (stored && !isStoredCopyOf(stored, driveFileId)) {
+      return NextResponse.json(
+        { error: 'The stored copy of this row belongs to another document; process the row again' },
+        { status: 409 }
+      );
+    }
+    const document = stored || row;
+
+    const driveDoc = await fetchDriveDocument(accessToken, driveFileId);
+
+    return NextResponse.json({
+      previousContent: document.content || '',
+      content: driveDoc.content,
+      revision: driveDoc.revision,
+      modifiedTime: driveDoc.modifiedTime,
+    });
+  } catch (error) {
+    console.error('Error fetching document for re-sync:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch document' },
+      { status: error instanceof UnsupportedDocumentError ? 415 : 500 }
+    );
+  }
+}
@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getDocumentContent, downloadFile, extractDriveFileId } from '@/lib/google-drive';
-import { processDocument, extractTitleFromContent } from '@/lib/document-processor';
-import { extractMetadata } from '@/lib/ai';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { extractDriveFileId, getFilesMetadata } from '@/lib/google-drive';
+import { fetchDriveDocument, getOutOfSyncSites, isStoredCopyOf } from '@/lib/document-sync';
+import { UnsupportedDocumentError } from '@/lib/document-processor';
+import { applyDocumentMetadata, fillMissingMetadata } from '@/lib/metadata';
 import { getContentRepoData, sheetRowsToDocuments, sheetRowToMetadata } from '@/lib/google-sheets';
 import { downloadFeaturedImage } from '@/lib/featured-image';
+import { getStore } from '@/lib/store';
 import { Document, DocumentMetadata } from '@/types';
 
 // Helper to generate URL-safe slugs
@@ -18,9 +21,6 @@ function generateSlug(title: string): string {
     .trim();
 }
 
-// In-memory store for processed documents (in production, use a database)
-const processedDocuments = new Map<string, Document>();
-
 export async function GET(request: NextRequest) {
   const session = await getServerSession(authOptions);
 
@@ -28,6 +28,11 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'view')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'view') }, { status: 403 });
+  }
+
   const accessToken = (session as any).accessToken;
 
   if (!accessToken) {
@@ -42,22 +47,49 @@ export async function GET(request: NextRequest) {
     const sheetRows = await getContentRepoData(accessToken);
     const documents = sheetRowsToDocuments(sheetRows);
 
-    // Merge with any locally processed documents (for content/images loaded this session)
+    // Merge with any previously processed documents from the store
+    const storedDocuments = await getStore().listDocuments();
+    const processedDocuments = new Map(storedDocuments.map((d) => [d.id, d]));
+
     const enrichedDocuments = documents.map((doc) => {
       const processed = processedDocuments.get(doc.id);
-      if (processed) {
+      // A copy stored for another article (rows were moved) is ignored
+      if (isStoredCopyOf(processed, doc.driveFileId)) {
+        // Documents processed before the asset cache carry their image inline; it
+        // isn't sent to the browser (publishing downloads it again)
+        const { featuredImageData: _inlineImage, ...processedMetadata } =
+          (processed.metadata || {}) as Partial<DocumentMetadata> & { featuredImageData?: string };
         // Merge processed content with sheet data
         return {
           ...doc,
           ...processed,
           // Keep sheet metadata but allow processed overrides
-          metadata: { ...doc.metadata, ...processed.metadata },
+          metadata: { ...doc.metadata!, ...processedMetadata },
+          // The sheet's Sites column decides where the document goes
+          targetSites: doc.targetSites || processed.targetSites,
         };
       }
       return doc;
     });
 
-    return NextResponse.json({ documents: enrichedDocuments });
+    // The sheet only knows the post date: take modified times from Drive and
+    // flag posts published from an older version of the document
+    const files = await getFilesMetadata(
+      accessToken,
+      enrichedDocuments.map((doc) => doc.driveFileId).filter((id): id is string => !!id)
+    );
+    const syncedDocuments = enrichedDocuments.map((doc) => {
+      const file = doc.driveFileId ? files.get(doc.driveFileId) : undefined;
+      if (!file) return { ...doc, outOfSyncSites: undefined };
+      return {
+        ...doc,
+        mimeType: file.mimeType,
+        modifiedTime: file.modifiedTime || doc.modifiedTime,
+        outOfSyncSites: getOutOfSyncSites(doc, file),
+      };
+    });
+
+    return NextResponse.json({ documents: syncedDocuments });
   } catch (error) {
     console.error('Error listing documents:', error);
     return NextResponse.json(
@@ -74,6 +106,11 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'process')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'process') }, { status: 403 });
+  }
+
   const accessToken = (session as any).accessToken;
 
   if (!accessToken) {
@@ -101,54 +138,70 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Sheet row not found' }, { status: 404 });
     }
 
-    // Column I (blogLink) contains the Drive link to the document
-    let driveFileId = extractDriveFileId(sheetRow.blogLink);
-
-    // If blogLink doesn't contain a valid Drive link, check if it's a raw file ID
-    if (!driveFileId && sheetRow.blogLink) {
-      if (/^[a-zA-Z0-9_-]{20,}$/.test(sheetRow.blogLink.trim())) {
-        driveFileId = sheetRow.blogLink.trim();
-      }
-    }
+    // The Blog Link column contains the Drive link (or raw file ID) of the document
+    const driveFileId = extractDriveFileId(sheetRow.blogLink);
 
     let content = '';
     let extractedTitle: string | null = null;
+    let documentMetadata: Partial<DocumentMetadata> = {};
+    let mimeType = doc.mimeType;
+    let contentRevision: string | undefined;
+    let modifiedTime: string | undefined;
 
     if (driveFileId) {
-      // Get content from Google Drive
+      // Get content from Google Drive, with the title heading taken out
       try {
-        const rawHtml = await getDocumentContent(accessToken, driveFileId, 'application/vnd.google-apps.document');
-        content = await processDocument(rawHtml, 'application/vnd.google-apps.document', doc.name);
-
-        // Extract title from first heading and remove it from content
-        const titleResult = extractTitleFromContent(content);
-        extractedTitle = titleResult.title;
-        content = titleResult.contentWithoutTitle;
+        const driveDoc = await fetchDriveDocument(accessToken, driveFileId);
+        content = driveDoc.content;
+        extractedTitle = driveDoc.title;
+        documentMetadata = driveDoc.metadata;
+        mimeType = driveDoc.mimeType;
+        contentRevision = driveDoc.revision;
+        modifiedTime = driveDoc.modifiedTime;
       } catch (driveError) {
+        // A file that can never be converted is reported rather than processed empty
+        if (driveError instanceof UnsupportedDocumentError) {
+          return NextResponse.json({ error: driveError.message }, { status: 415 });
+        }
         console.warn('Could not fetch content from Drive:', driveError);
         // Continue without content - user can still publish with metadata
       }
     }
 
-    // Build metadata from sheet (already populated in doc.metadata)
-    const metadata: DocumentMetadata = {
-      ...doc.metadata!,
-      // Override title with extracted heading if we got one and sheet doesn't have one
-      title: doc.metadata?.title || extractedTitle || sheetRow.title || doc.name,
-      slug: doc.metadata?.slug || generateSlug(doc.metadata?.title || extractedTitle || sheetRow.title || doc.name),
+    // Build metadata from sheet (already populated in doc.metadata), then
+    // fill blanks from the document's own frontmatter
+    const described = applyDocumentMetadata(doc.metadata!, documentMetadata);
+    let metadata: DocumentMetadata = {
+      ...described,
+      // Override title with extracted heading if we got one and neither sheet nor frontmatter has one
+      title: described.title || extractedTitle || sheetRow.title || doc.name,
+      slug: described.slug || generateSlug(described.title || extractedTitle || sheetRow.title || doc.name),
+      publishDate: documentMetadata.publishDate || described.publishDate,
     };
 
+    if (!described.title && extractedTitle) {
+      metadata.metadataSources = { ...metadata.metadataSources, title: 'document' };
+    }
+
+    // Ask the AI for any fields the sheet left blank
+    try {
+      metadata = await fillMissingMetadata(metadata, content, doc.name);
+    } catch (aiError) {
+      console.warn('AI metadata extraction failed:', aiError);
+      // Continue with sheet metadata only
+    }
+
     // Download featured image from Drive if we have a photoLink
     if (metadata.photoLink) {
       try {
         console.log(`Downloading featured image from: ${metadata.photoLink}`);
         const imageResult = await downloadFeaturedImage(accessToken, metadata.photoLink);
 
-        if (imageResult.success && imageResult.data) {
-          metadata.featuredImageData = imageResult.data;
-          metadata.featuredImageMimeType = imageResult.mimeType;
-          metadata.featuredImageName = imageResult.filename;
-          console.log(`Featured image downloaded: ${imageResult.filename}`);
+        if (imageResult.success && imageResult.asset) {
+          metadata.featuredImageAssetId = imageResult.asset.id;
+          metadata.featuredImageMimeType = imageResult.asset.mimeType;
+          metadata.featuredImageName = imageResult.asset.filename;
+          console.log(`Featured image ready: ${imageResult.asset.filename}`);
         } else {
           console.warn(`Featured image download failed: ${imageResult.error}`);
         }
@@ -164,10 +217,29 @@ export async function POST(request: NextRequest) {
       status: 'processed',
       content,
       metadata,
+      mimeType,
+      modifiedTime: modifiedTime || doc.modifiedTime,
       sheetRowIndex: sheetRow.rowIndex,
+      driveFileId: driveFileId || undefined,
+      contentRevision,
+      processedAt: new Date().toISOString(),
     };
 
-    processedDocuments.set(documentId, processedDoc);
+    // Keep WordPress linkage from earlier publishes of this document, unless
+    // the row held another article then
+    const previous = await getStore().getDocument(documentId);
+    const stored = isStoredCopyOf(previous, driveFileId) ? previous : null;
+    if (stored?.wpPostId) {
+      processedDoc.wpPostId = stored.wpPostId;
+      processedDoc.wpPostUrl = stored.wpPostUrl;
+      processedDoc.wpStatus = stored.wpStatus;
+      processedDoc.wpPublishedAt = stored.wpPublishedAt;
+    }
+    if (stored?.wpPosts) {
+      processedDoc.wpPosts = stored.wpPosts;
+    }
+
+    await getStore().saveDocument(processedDoc);
 
     return NextResponse.json({ document: processedDoc });
   } catch (error) {
@@ -179,7 +251,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// PATCH - Update document with WordPress info after publishing
+// PATCH - Update document with reviewed content
 export async function PATCH(request: NextRequest) {
   const session = await getServerSession(authOptions);
 
@@ -187,25 +259,27 @@ export async function PATCH(request: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'process')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'process') }, { status: 403 });
+  }
+
   try {
-    const { documentId, wpPostId, wpPostUrl, wpStatus } = await request.json();
+    // WordPress post fields are only written by the publish route, which checks the publish permissions
+    const { documentId, content } = await request.json();
 
-    const doc = processedDocuments.get(documentId);
-    if (!doc) {
-      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    const updates: Partial<Document> = {};
+
+    // Content after an editorial pass; this is what gets published
+    if (typeof content === 'string') {
+      updates.content = content;
     }
 
-    // Update the document with WordPress info
-    const updatedDoc: Document = {
-      ...doc,
-      status: 'published',
-      wpPostId,
-      wpPostUrl,
-      wpStatus,
-      wpPublishedAt: new Date().toISOString(),
-    };
+    const updatedDoc = await getStore().updateDocument(documentId, updates);
 
-    processedDocuments.set(documentId, updatedDoc);
+    if (!updatedDoc) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
 
     return NextResponse.json({ document: updatedDoc });
   } catch (error) {
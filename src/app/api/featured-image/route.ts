@@ -0,0 +1,225 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { downloadFeaturedImage, listPhotoLinkImages, uploadLocalImage } from '@/lib/featured-image';
+import { getDriveFileLink } from '@/lib/google-drive';
+import { getContentRepoData, sheetRowsToDocuments, updateRowPhotoLink } from '@/lib/google-sheets';
+import { getDefaultSite, getSiteProfiles, getWordPressClient, parseMediaLink } from '@/lib/wordpress';
+import { getStore } from '@/lib/store';
+import { Document, DocumentMetadata } from '@/types';
+
+// Uploads beyond this are refused on their Content-Length, before the body is read
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+// Room in the request body for the other form fields and multipart boundaries
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+/**
+ * A site name from the request, or the default site when none is given;
+ * null for a name that isn't configured (a 400, not a 500 from getWordPressClient)
+ */
+function resolveSite(name: unknown): string | null {
+  if (name === undefined || name === null || name === '') return getDefaultSite();
+  if (typeof name !== 'string') return null;
+  const site = getSiteProfiles().find((profile) => profile.name === name.trim().toLowerCase());
+  return site ? site.name : null;
+}
+
+const unknownSite = (name: unknown) =>
+  NextResponse.json({ error: `Unknown WordPress site "${String(name)}"` }, { status: 400 });
+
+// Metadata fields a new pick replaces; the ones the pick doesn't set are cleared
+type FeaturedImageFields = Pick<
+  DocumentMetadata,
+  'photoLink' | 'featuredImage' | 'featuredImageId' | 'featuredImageAssetId' | 'featuredImageMimeType' | 'featuredImageName'
+>;
+
+/**
+ * The metadata for a new Photo Link: a media library item is shown from
+ * WordPress, a Drive image is processed into the asset cache
+ */
+async function describePhotoLink(accessToken: string, photoLink: string): Promise<FeaturedImageFields> {
+  const libraryImage = parseMediaLink(photoLink);
+  if (libraryImage) {
+    const media = await getWordPressClient(libraryImage.site).getMedia(libraryImage.mediaId);
+    return {
+      photoLink,
+      featuredImage: media.source_url,
+      featuredImageName: media.source_url.split('/').pop(),
+    };
+  }
+
+  const imageResult = await downloadFeaturedImage(accessToken, photoLink);
+  if (!imageResult.asset) {
+    throw new Error(imageResult.error || 'Failed to download featured image');
+  }
+  return {
+    photoLink,
+    featuredImageAssetId: imageResult.asset.id,
+    featuredImageMimeType: imageResult.asset.mimeType,
+    featuredImageName: imageResult.asset.filename,
+  };
+}
+
+// GET - Images to pick from: ?source=drive&link=<Photo Link> lists the linked Drive folder,
+// ?source=wordpress&site=&search=&page= a page of a site's media library
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'view')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'view') }, { status: 403 });
+  }
+
+  const params = request.nextUrl.searchParams;
+
+  try {
+    if (params.get('source') === 'wordpress') {
+      const site = resolveSite(params.get('site'));
+      if (!site) return unknownSite(params.get('site'));
+      const client = getWordPressClient(site);
+      const { items, totalPages } = await client.searchMedia({
+        search: params.get('search') || undefined,
+        page: parseInt(params.get('page') || '1', 10) || 1,
+      });
+      return NextResponse.json({ site: client.name, items, totalPages });
+    }
+
+    const accessToken = (session as any).accessToken;
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Google Drive not connected' }, { status: 400 });
+    }
+
+    const link = params.get('link');
+    if (!link || parseMediaLink(link)) {
+      return NextResponse.json({ error: 'The Photo Link is not a Google Drive folder or image' }, { status: 400 });
+    }
+
+    return NextResponse.json({ images: await listPhotoLinkImages(accessToken, link) });
+  } catch (error) {
+    console.error('Error listing featured images:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list images' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Picks a document's featured image and saves it to the sheet's Photo Link column.
+// JSON { documentId, driveFileId } or { documentId, site, mediaId }; a multipart form with
+// documentId, site and file uploads a local image to that site's media library first.
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'process')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'process') }, { status: 403 });
+  }
+
+  const accessToken = (session as any).accessToken;
+  if (!accessToken) {
+    return NextResponse.json({ error: 'Google Drive not connected' }, { status: 400 });
+  }
+
+  try {
+    let documentId: string;
+    let photoLink: string;
+
+    if ((request.headers.get('content-type') || '').startsWith('multipart/form-data')) {
+      // Adding to the media library writes to WordPress
+      if (!hasPermission(role, 'saveDraft')) {
+        return NextResponse.json({ error: forbiddenMessage(role, 'saveDraft') }, { status: 403 });
+      }
+
+      const tooLarge = `Images up to ${MAX_UPLOAD_BYTES / 1024 / 1024} MB can be uploaded`;
+      const contentLength = parseInt(request.headers.get('content-length') || '', 10);
+      if (!contentLength) {
+        return NextResponse.json({ error: 'Content-Length is required for uploads' }, { status: 411 });
+      }
+      if (contentLength > MAX_UPLOAD_BYTES + FORM_OVERHEAD_BYTES) {
+        return NextResponse.json({ error: tooLarge }, { status: 413 });
+      }
+
+      const form = await request.formData();
+      const file = form.get('file');
+      documentId = String(form.get('documentId') || '');
+      if (!(file instanceof File) || !file.type.startsWith('image/')) {
+        return NextResponse.json({ error: 'Choose an image file to upload' }, { status: 400 });
+      }
+      if (file.size > MAX_UPLOAD_BYTES) {
+        return NextResponse.json({ error: tooLarge }, { status: 413 });
+      }
+
+      const site = resolveSite(form.get('site'));
+      if (!site) return unknownSite(form.get('site'));
+      const client = getWordPressClient(site);
+      const uploadResult = await uploadLocalImage(client, Buffer.from(await file.arrayBuffer()), file.name, {
+        altText: String(form.get('altText') || '') || undefined,
+      });
+      if (!uploadResult.success || !uploadResult.mediaId) {
+        return NextResponse.json({ error: uploadResult.error || 'Upload failed' }, { status: 500 });
+      }
+      photoLink = client.getMediaLink(uploadResult.mediaId);
+    } else {
+      const body: { documentId: string; driveFileId?: string; site?: string; mediaId?: number } = await request.json();
+      documentId = body.documentId;
+      if (body.driveFileId) {
+        photoLink = getDriveFileLink(body.driveFileId);
+      } else if (body.mediaId) {
+        const site = resolveSite(body.site);
+        if (!site) return unknownSite(body.site);
+        photoLink = getWordPressClient(site).getMediaLink(body.mediaId);
+      } else {
+        return NextResponse.json({ error: 'Pick a Drive image or a media library item' }, { status: 400 });
+      }
+    }
+
+    // Rows nobody has processed yet are only in the sheet
+    const store = getStore();
+    let document: Document | null = await store.getDocument(documentId);
+    const stored = !!document;
+    if (!document) {
+      const rows = await getContentRepoData(accessToken);
+      document = sheetRowsToDocuments(rows).find((doc) => doc.id === documentId) || null;
+    }
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const fields = await describePhotoLink(accessToken, photoLink);
+
+    // Auto-publish reads the Photo Link column, so the pick has to go there
+    if (document.sheetRowIndex) {
+      await updateRowPhotoLink(accessToken, document.sheetRowIndex, photoLink);
+    }
+
+    if (stored && document.metadata) {
+      await store.updateDocument(documentId, {
+        metadata: {
+          ...document.metadata,
+          featuredImage: undefined,
+          featuredImageId: undefined,
+          featuredImageAssetId: undefined,
+          featuredImageMimeType: undefined,
+          ...fields,
+        },
+      });
+    }
+
+    return NextResponse.json({ metadata: fields });
+  } catch (error) {
+    console.error('Error picking featured image:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to pick featured image' },
+      { status: 500 }
+    );
+  }
+}
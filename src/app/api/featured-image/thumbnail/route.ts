@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { downloadThumbnail } from '@/lib/google-drive';
+
+// GET - The Drive thumbnail of an image (?id=<Drive file ID>), for the featured image picker
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'view')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'view') }, { status: 403 });
+  }
+
+  const accessToken = (session as any).accessToken;
+  if (!accessToken) {
+    return NextResponse.json({ error: 'Google Drive not connected' }, { status: 400 });
+  }
+
+  const fileId = request.nextUrl.searchParams.get('id');
+  if (!fileId) {
+    return NextResponse.json({ error: 'Missing Drive file ID' }, { status: 400 });
+  }
+
+  try {
+    const thumbnail = await downloadThumbnail(accessToken, fileId);
+    if (!thumbnail) {
+      return NextResponse.json({ error: 'No thumbnail available' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(thumbnail.data), {
+      headers: {
+        'Content-Type': thumbnail.mimeType,
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching Drive thumbnail:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch thumbnail' },
+      { status: 500 }
+    );
+  }
+}
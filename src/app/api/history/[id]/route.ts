@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { getStore } from '@/lib/store';
+
+// GET - One run with every publish recorded under it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'view')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'view') }, { status: 403 });
+  }
+
+  try {
+    const store = getStore();
+    const run = await store.getPublishRun(parseInt(params.id, 10));
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const entries = await store.listPublishHistory({ runId: run.id });
+    return NextResponse.json({ run, entries });
+  } catch (error) {
+    console.error('Error fetching publish run:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch publish run' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { getStore } from '@/lib/store';
+import { getContentRepoData } from '@/lib/google-sheets';
+import { extractDriveFileId } from '@/lib/google-drive';
+import { PublishRun } from '@/types';
+
+function parseId(value: string | null): number | undefined | null {
+  if (!value) return undefined;
+  const id = parseInt(value, 10);
+  return id > 0 ? id : null;
+}
+
+/**
+ * GET - Recent publishing runs, newest first.
+ * With ?row=12 or ?wpPostId=345, every publish recorded for that sheet row
+ * or WordPress post instead, together with the runs they belong to. A row
+ * only shows publishes of the article it links to now, in case rows were moved.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'view')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'view') }, { status: 403 });
+  }
+
+  const sheetRowIndex = parseId(request.nextUrl.searchParams.get('row'));
+  const wpPostId = parseId(request.nextUrl.searchParams.get('wpPostId'));
+  if (sheetRowIndex === null || wpPostId === null) {
+    return NextResponse.json({ error: 'row and wpPostId must be positive numbers' }, { status: 400 });
+  }
+
+  try {
+    const store = getStore();
+
+    if (sheetRowIndex === undefined && wpPostId === undefined) {
+      const runs = await store.listPublishRuns({ limit: 200 });
+      return NextResponse.json({ runs });
+    }
+
+    let entries = await store.listPublishHistory({ sheetRowIndex, wpPostId });
+
+    const accessToken = (session as any).accessToken;
+    if (sheetRowIndex !== undefined && accessToken) {
+      const row = (await getContentRepoData(accessToken)).find((r) => r.rowIndex === sheetRowIndex);
+      const driveFileId = row ? extractDriveFileId(row.blogLink) : null;
+      // Entries from before the article was recorded can't be told apart and are kept
+      entries = entries.filter((entry) => !entry.driveFileId || entry.driveFileId === driveFileId);
+    }
+
+    const runIds = Array.from(new Set(entries.map((entry) => entry.runId).filter((id): id is number => !!id)));
+    const runs = (await Promise.all(runIds.map((id) => store.getPublishRun(id))))
+      .filter((run): run is PublishRun => !!run);
+
+    return NextResponse.json({ entries, runs });
+  } catch (error) {
+    console.error('Error listing publish history:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list publish history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { getStore } from '@/lib/store';
+import { JobStatus } from '@/types';
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'failed', 'dead'];
+
+// GET - List recent jobs, optionally filtered by ?status=dead
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'view')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'view') }, { status: 403 });
+  }
+
+  const status = request.nextUrl.searchParams.get('status') as JobStatus | null;
+  if (status && !JOB_STATUSES.includes(status)) {
+    return NextResponse.json({ error: `Unknown job status: ${status}` }, { status: 400 });
+  }
+
+  try {
+    const jobs = await getStore().listJobs({ status: status || undefined });
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('Error listing jobs:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list jobs' },
+      { status: 500 }
+    );
+  }
+}
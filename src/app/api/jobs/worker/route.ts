@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, getAccessTokenFromRefreshToken } from '@/lib/auth';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { getContentRepoData } from '@/lib/google-sheets';
+import { createPublishRowHandler, PUBLISH_ROW_JOB } from '@/lib/auto-publish';
+import { runJobs } from '@/lib/job-queue';
+import { finishRun, getRunTrigger, startRun } from '@/lib/publish-history';
+import { PublishRun } from '@/types';
+
+/**
+ * Runs queued jobs. Called by cron (GET) and by the dashboard after queueing
+ * an auto-publish batch (POST). Each call processes a bounded batch with
+ * bounded concurrency; remaining jobs wait for the next call.
+ */
+async function handleWorker(request: NextRequest) {
+  const apiKey = request.headers.get('x-api-key');
+  const expectedKey = process.env.AUTO_PUBLISH_API_KEY;
+  const cronSecret = request.headers.get('authorization')?.replace('Bearer ', '');
+  const isVercelCron = cronSecret && cronSecret === process.env.CRON_SECRET;
+
+  // Allow: valid session, valid API key, or Vercel cron
+  const session = await getServerSession(authOptions);
+  let accessToken = (session as any)?.accessToken;
+
+  if (!accessToken && !isVercelCron && (!apiKey || apiKey !== expectedKey)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Cron and API key callers are trusted; signed-in users must be allowed to auto-publish
+  const role = getSessionRole(session);
+  if (!isVercelCron && (!apiKey || apiKey !== expectedKey) && !hasPermission(role, 'autoPublish')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'autoPublish') }, { status: 403 });
+  }
+
+  // For cron/API key auth, get token from stored refresh token
+  if (!accessToken) {
+    accessToken = await getAccessTokenFromRefreshToken();
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: 'Could not obtain Google access token. Set GOOGLE_REFRESH_TOKEN env var.' },
+        { status: 500 }
+      );
+    }
+  }
+
+  // The run is only recorded once a job actually runs, so idle cron ticks
+  // don't fill the history
+  const { trigger, triggeredBy } = getRunTrigger(session?.user?.email, !!isVercelCron);
+  let run: Promise<PublishRun> | null = null;
+  const getRunId = async () => (await (run ??= startRun('job-worker', trigger, triggeredBy))).id;
+
+  try {
+    // Read the sheet once per batch; handlers look their rows up in it
+    const rows = await getContentRepoData(accessToken);
+
+    const summary = await runJobs({
+      [PUBLISH_ROW_JOB]: createPublishRowHandler(accessToken, rows, getRunId),
+    });
+
+    const message =
+      `${summary.completed} completed, ${summary.retried} retrying, ` +
+      `${summary.failed} failed, ${summary.dead} dead`;
+    console.log(`[Jobs] Worker finished: ${message}`);
+    if (run) await finishRun(await run, { message });
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('[Jobs] Worker error:', error);
+    if (run) {
+      await finishRun(await run, { error: error instanceof Error ? error.message : 'Job worker failed' });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Job worker failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleWorker(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleWorker(request);
+}
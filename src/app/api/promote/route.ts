@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { updateRowAfterPromotion } from '@/lib/google-sheets';
+import { promoteDocument } from '@/lib/promotion';
+import { finishRun, startRun } from '@/lib/publish-history';
+import { getStore } from '@/lib/store';
+import { getSitePosts } from '@/lib/wordpress';
+
+// POST - Promote a document's staging post to production
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Promotion puts the post live on production
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'publish')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'publish') }, { status: 403 });
+  }
+
+  const accessToken = (session as any).accessToken;
+  if (!accessToken) {
+    return NextResponse.json(
+      { error: 'Sign in with Google so the document can be checked for changes since the staging publish' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { documentId } = await request.json();
+
+    const store = getStore();
+    const document = await store.getDocument(documentId);
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const run = await startRun('promotion', 'session', session.user?.email || undefined);
+    const result = await promoteDocument(accessToken, document, run.id);
+    await finishRun(run, result.success ? {} : { error: result.error });
+
+    if (!result.success || !result.postId || !result.site) {
+      return NextResponse.json(
+        { error: result.error, stale: result.stale, warnings: result.warnings },
+        { status: result.stale ? 409 : 500 }
+      );
+    }
+
+    // The production post is tracked next to the staging one; wpPostId & co. keep mirroring staging
+    const now = new Date().toISOString();
+    const updated = await store.saveDocument({
+      ...document,
+      wpPosts: {
+        ...getSitePosts(document),
+        [result.site]: {
+          postId: result.postId,
+          postUrl: result.postUrl,
+          status: 'publish',
+          publishedAt: result.publishedAt || now,
+          updatedAt: now,
+          revision: result.revision,
+          // Lets the next publish or promotion notice edits made in WordPress
+          publishedContent: result.content,
+        },
+      },
+    });
+
+    if (document.sheetRowIndex) {
+      try {
+        await updateRowAfterPromotion(accessToken, document.sheetRowIndex, result.postId, result.postUrl);
+      } catch (sheetError) {
+        console.error('Failed to update sheet:', sheetError);
+        // Don't fail the promotion if sheet update fails, but say so
+        result.warnings.push(sheetError instanceof Error ? sheetError.message : 'Failed to update the Content Repo sheet');
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      postId: result.postId,
+      postUrl: result.postUrl,
+      isUpdate: result.isUpdate,
+      warnings: result.warnings,
+      document: updated,
+    });
+  } catch (error) {
+    console.error('Error promoting document:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to promote' },
+      { status: 500 }
+    );
+  }
+}
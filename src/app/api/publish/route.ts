@@ -1,54 +1,73 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { createPost, updatePost, getOrCreateCategory, getOrCreateTags } from '@/lib/wordpress';
-import { uploadFeaturedImage } from '@/lib/featured-image';
-import { updateRowAfterPublish } from '@/lib/google-sheets';
-import { Document, DocumentMetadata, WordPressPost } from '@/types';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { getSitePosts, getWordPressClient, parseMediaLink, resolveTargetSites, WordPressClient } from '@/lib/wordpress';
+import { downloadFeaturedImage, resolveLibraryImage, uploadFeaturedImage } from '@/lib/featured-image';
+import { uploadInlineImages } from '@/lib/inline-images';
+import { formatForWordPress } from '@/lib/document-processor';
+import { findWordPressEdits, isStoredCopyOf } from '@/lib/document-sync';
+import { updateRowAfterPublish, updateRowAfterError } from '@/lib/google-sheets';
+import { getStore } from '@/lib/store';
+import { describePost, finishRun, recordPublish, startRun } from '@/lib/publish-history';
+import {
+  Document,
+  DocumentMetadata,
+  ImageAsset,
+  PublishRun,
+  SitePublishResult,
+  WordPressEdits,
+  WordPressEditsResolution,
+  WordPressPost,
+} from '@/types';
 
-export async function POST(request: NextRequest) {
-  const session = await getServerSession(authOptions);
+interface SiteOutcome extends SitePublishResult {
+  isUpdate: boolean;
+  publishedAt?: string;
+  content?: string; // Post content as sent
+  documentContent?: string; // Document content with inline images pointing at the site's media library
+}
 
-  if (!session) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+/**
+ * Publishes the document to one site: featured image, inline images, terms,
+ * then the post. `keptContent` (content edited in WordPress) is sent instead
+ * of the document's. The attempt is recorded in the publish history; errors
+ * are returned, not thrown, so the other sites still get their turn.
+ */
+async function publishToSite(
+  client: WordPressClient,
+  document: Document,
+  metadata: DocumentMetadata,
+  options: {
+    status: 'draft' | 'publish';
+    publishDate?: string;
+    featuredMediaId?: number;
+    featuredImage?: ImageAsset;
+    keptContent?: string;
+    runId: number;
   }
+): Promise<SiteOutcome> {
+  const startedAt = Date.now();
+  const existingPostId = getSitePosts(document)[client.name]?.postId;
+  const isUpdate = !!existingPostId;
+  let recorded = false;
 
   try {
-    const body = await request.json();
-    const {
-      document,
-      status = 'draft',
-      overrideMetadata,
-    }: {
-      document: Document;
-      status: 'draft' | 'publish';
-      overrideMetadata?: Partial<DocumentMetadata>;
-    } = body;
-
-    if (!document.content || !document.metadata) {
-      return NextResponse.json(
-        { error: 'Document must be processed before publishing' },
-        { status: 400 }
-      );
-    }
-
-    const metadata = { ...document.metadata, ...overrideMetadata };
-
-    // Handle featured image - upload pre-downloaded image to WordPress
-    let featuredMediaId: number | undefined = metadata.featuredImageId;
+    // Handle featured image - a media library pick, or the cached image uploaded to WordPress
+    let featuredMediaId = options.featuredMediaId;
+    const libraryImage = parseMediaLink(metadata.photoLink);
 
-    if (!featuredMediaId && metadata.featuredImageData && metadata.featuredImageName && metadata.featuredImageMimeType) {
+    if (!featuredMediaId && (libraryImage || options.featuredImage)) {
       try {
-        console.log(`Uploading featured image to WordPress: ${metadata.featuredImageName}`);
-        const uploadResult = await uploadFeaturedImage(
-          metadata.featuredImageData,
-          metadata.featuredImageName,
-          metadata.featuredImageMimeType
-        );
+        const details = { altText: metadata.featuredImageAlt, caption: metadata.featuredImageCaption, title: metadata.title };
+        console.log(`Uploading featured image to ${client.name}: ${libraryImage ? metadata.photoLink : options.featuredImage!.filename}`);
+        const uploadResult = libraryImage
+          ? await resolveLibraryImage(client, libraryImage, details)
+          : await uploadFeaturedImage(client, options.featuredImage!, details);
 
         if (uploadResult.success && uploadResult.mediaId) {
           featuredMediaId = uploadResult.mediaId;
-          console.log(`Featured image uploaded to WordPress: ID ${featuredMediaId}`);
+          console.log(`Featured image ${uploadResult.reused ? 'reused' : 'uploaded'} on ${client.name}: ID ${featuredMediaId}`);
         } else {
           console.warn(`Featured image upload failed: ${uploadResult.error}`);
           // Don't block publishing if image upload fails
@@ -59,36 +78,42 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Get or create category
-    const categoryId = await getOrCreateCategory(metadata.category);
+    let content = options.keptContent;
+    let documentContent: string | undefined;
+    if (content === undefined) {
+      // Upload inline images to the media library and point the content at them;
+      // a post with broken images is not sent
+      const inlineImages = await uploadInlineImages(document.content || '', client);
+      if (inlineImages.errors.length > 0) {
+        throw new Error(`${inlineImages.errors.length} inline image(s) could not be uploaded: ${inlineImages.errors[0]}`);
+      }
+      if (inlineImages.uploaded || inlineImages.reused) {
+        console.log(`Inline images on ${client.name}: ${inlineImages.uploaded} uploaded, ${inlineImages.reused} reused`);
+      }
+      documentContent = inlineImages.content;
+      content = formatForWordPress(inlineImages.content, metadata.contentFormat);
+    } else {
+      console.log(`Keeping the content edited in WordPress on ${client.name}`);
+    }
+
+    // Get or create categories, with their parent categories
+    const categoryIds = await client.getOrCreateCategories(metadata.categories);
 
     // Get or create tags
     const tagIds = metadata.tags.length > 0
-      ? await getOrCreateTags(metadata.tags)
+      ? await client.getOrCreateTags(metadata.tags)
       : [];
 
-    // Only set date if we're scheduling for a future date
-    // When publishing immediately (status='publish'), don't pass date - WordPress uses current time
-    let publishDate: string | undefined = undefined;
-    if (metadata.publishDate) {
-      const scheduledDate = new Date(`${metadata.publishDate}T12:00:00`);
-      const now = new Date();
-      // Only set date if it's in the future (for scheduling)
-      if (scheduledDate > now) {
-        publishDate = `${metadata.publishDate}T12:00:00`;
-      }
-    }
-
     // Build WordPress post with all fields
     const post: WordPressPost = {
       title: metadata.title,
-      content: document.content,
+      content,
       excerpt: metadata.excerpt,
       slug: metadata.slug,
-      status,
+      status: options.status,
       author: metadata.authorId,
-      date: publishDate, // undefined = publish now, future date = schedule
-      categories: [categoryId],
+      date: options.publishDate, // undefined = publish now, future date = schedule
+      categories: categoryIds,
       tags: tagIds,
       featured_media: featuredMediaId,
       format: metadata.format || 'standard',
@@ -99,32 +124,277 @@ export async function POST(request: NextRequest) {
       },
     };
 
-    // Check if this document already has a WordPress post - update instead of create
-    let result;
-    const isUpdate = !!document.wpPostId;
+    // Update the post this document already has on the site, otherwise create one
+    const result = existingPostId
+      ? await client.updatePost(existingPostId, post)
+      : await client.createPost(post);
 
-    if (document.wpPostId) {
-      result = await updatePost(document.wpPostId, post);
-    } else {
-      result = await createPost(post);
+    await recordPublish({
+      documentId: document.id,
+      source: 'manual',
+      action: isUpdate ? 'update' : 'create',
+      success: result.success,
+      runId: options.runId,
+      sheetRowIndex: document.sheetRowIndex,
+      driveFileId: document.driveFileId,
+      title: metadata.title,
+      site: client.name,
+      wpPostId: result.postId || existingPostId,
+      wpPostUrl: result.postUrl,
+      wpStatus: options.status,
+      sentMetadata: describePost(post, metadata),
+      error: result.error,
+      durationMs: Date.now() - startedAt,
+      createdAt: new Date().toISOString(),
+    });
+    recorded = true;
+
+    if (!result.success || !result.postId) {
+      return { site: client.name, success: false, isUpdate, error: result.error || 'WordPress publish failed' };
     }
 
-    if (!result.success) {
-      return NextResponse.json({ error: result.error }, { status: 500 });
+    return {
+      site: client.name,
+      success: true,
+      isUpdate,
+      postId: result.postId,
+      postUrl: result.postUrl,
+      publishedAt: result.publishedAt,
+      content,
+      documentContent,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to publish';
+    console.error(`Error publishing to ${client.name}:`, error);
+
+    if (!recorded) {
+      try {
+        await recordPublish({
+          documentId: document.id,
+          source: 'manual',
+          action: isUpdate ? 'update' : 'create',
+          success: false,
+          runId: options.runId,
+          sheetRowIndex: document.sheetRowIndex,
+          driveFileId: document.driveFileId,
+          title: metadata.title,
+          site: client.name,
+          wpPostId: existingPostId,
+          error: message,
+          durationMs: Date.now() - startedAt,
+          createdAt: new Date().toISOString(),
+        });
+      } catch (historyError) {
+        console.error('Failed to record publish history:', historyError);
+      }
     }
+    return { site: client.name, success: false, isUpdate, error: message };
+  }
+}
 
-    // Update Google Sheet with WordPress info (Column H = Status, Column K = WP ID)
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let run: PublishRun | null = null;
+  let document: Document | undefined;
+  const startedAt = Date.now();
+
+  try {
+    const body: {
+      document: Document;
+      status?: 'draft' | 'publish';
+      overrideMetadata?: Partial<DocumentMetadata>;
+      sites?: string[]; // Defaults to the document's target sites
+      wordPressEdits?: WordPressEditsResolution; // Required once edits made in WordPress were found
+    } = await request.json();
+    const { status = 'draft', overrideMetadata } = body;
+
+    // Processing stores the document; its WordPress posts and sheet row are
+    // taken from the stored copy only, never from the client's
+    const stored = await getStore().getDocument(body.document.id);
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Document must be processed before publishing' },
+        { status: 404 }
+      );
+    }
+    if (!isStoredCopyOf(stored, body.document.driveFileId)) {
+      return NextResponse.json(
+        { error: 'The sheet row now links to another document; reload and process it again' },
+        { status: 409 }
+      );
+    }
+    document = {
+      ...body.document,
+      sheetRowIndex: stored.sheetRowIndex,
+      wpPostId: stored.wpPostId,
+      wpPostUrl: stored.wpPostUrl,
+      wpStatus: stored.wpStatus,
+      wpPublishedAt: stored.wpPublishedAt,
+      wpPosts: stored.wpPosts,
+    };
+
+    if (!document.content || !document.metadata) {
+      return NextResponse.json(
+        { error: 'Document must be processed before publishing' },
+        { status: 400 }
+      );
+    }
+
+    let sites: string[];
+    try {
+      sites = resolveTargetSites(body.sites || document.targetSites);
+    } catch (siteError) {
+      return NextResponse.json(
+        { error: siteError instanceof Error ? siteError.message : 'Unknown WordPress site' },
+        { status: 400 }
+      );
+    }
+
+    // Editors may save drafts; going live, or touching a post that is already live, needs a publisher
+    const role = getSessionRole(session);
+    const storedPosts = getSitePosts(stored);
+    const isLive = sites.some((site) => storedPosts[site]?.status === 'publish');
+    const permission = status === 'publish' || isLive ? 'publish' : 'saveDraft';
+    if (!hasPermission(role, permission)) {
+      return NextResponse.json({ error: forbiddenMessage(role, permission) }, { status: 403 });
+    }
+
+    // Content edited in WordPress since the last publish would be overwritten:
+    // send the edits back so they can be reviewed before anything is written
+    const editedPosts: WordPressEdits[] = [];
+    for (const site of sites) {
+      const post = storedPosts[site];
+      if (!post) continue;
+      try {
+        const edits = await findWordPressEdits(getWordPressClient(site), post);
+        if (edits) editedPosts.push(edits);
+      } catch (checkError) {
+        console.warn(`Could not check post ${post.postId} on ${site} for WordPress edits:`, checkError);
+      }
+    }
+    if (editedPosts.length > 0 && !body.wordPressEdits) {
+      return NextResponse.json(
+        { error: 'The post was edited in WordPress since it was last published', wordPressEdits: editedPosts },
+        { status: 409 }
+      );
+    }
+
+    run = await startRun('publish', 'session', session.user?.email || undefined);
+
+    const metadata = { ...document.metadata, ...overrideMetadata };
     const accessToken = (session as any).accessToken;
-    if (document.sheetRowIndex && accessToken && result.postId) {
+
+    // The image processed with the document is in the asset cache. Documents
+    // processed before there was one (or whose asset is gone) download it again.
+    let featuredImage = metadata.featuredImageAssetId
+      ? await getStore().getAsset(metadata.featuredImageAssetId)
+      : null;
+    if (!featuredImage && metadata.photoLink && !parseMediaLink(metadata.photoLink) && accessToken) {
+      const imageResult = await downloadFeaturedImage(accessToken, metadata.photoLink);
+      if (imageResult.asset) {
+        featuredImage = imageResult.asset;
+        metadata.featuredImageAssetId = imageResult.asset.id;
+      } else {
+        console.warn(`Featured image unavailable: ${imageResult.error}`);
+      }
+    }
+
+    // Only set date if we're scheduling for a future date
+    // When publishing immediately (status='publish'), don't pass date - WordPress uses current time
+    let publishDate: string | undefined = undefined;
+    if (metadata.publishDate) {
+      const scheduledDate = new Date(`${metadata.publishDate}T12:00:00`);
+      const now = new Date();
+      // Only set date if it's in the future (for scheduling)
+      if (scheduledDate > now) {
+        publishDate = `${metadata.publishDate}T12:00:00`;
+      }
+    }
+
+    const results: SiteOutcome[] = [];
+    for (const site of sites) {
+      results.push(await publishToSite(getWordPressClient(site), document, metadata, {
+        status,
+        publishDate,
+        // A media library ID only exists on the site it was picked from: the first one
+        featuredMediaId: site === sites[0] ? metadata.featuredImageId : undefined,
+        featuredImage: featuredImage || undefined,
+        keptContent: body.wordPressEdits === 'keep'
+          ? editedPosts.find((edits) => edits.site === site)?.live
+          : undefined,
+        runId: run.id,
+      }));
+    }
+    await finishRun(run);
+
+    const succeeded = results.filter((result) => result.success);
+    const failed = results.filter((result) => !result.success);
+
+    const now = new Date().toISOString();
+    const wpPosts = { ...storedPosts };
+    for (const result of succeeded) {
+      wpPosts[result.site] = {
+        postId: result.postId!,
+        postUrl: result.postUrl,
+        status,
+        publishedAt: result.publishedAt || now,
+        updatedAt: now,
+        revision: document.contentRevision,
+        publishedContent: result.content,
+      };
+    }
+
+    if (succeeded.length > 0) {
+      const primary = wpPosts[sites[0]];
+
+      // Saved with the first site's media URLs, which don't expire like the exported ones
+      await getStore().saveDocument({
+        ...document,
+        content: succeeded[0].documentContent ?? document.content,
+        metadata,
+        status: 'published',
+        targetSites: sites,
+        wpPosts,
+        wpPostId: primary?.postId,
+        wpPostUrl: primary?.postUrl,
+        wpStatus: primary?.status,
+        wpPublishedAt: primary?.publishedAt,
+      });
+    }
+
+    if (failed.length > 0) {
+      const error = failed.map((result) => (sites.length > 1 ? `${result.site}: ${result.error}` : result.error)).join('; ');
+
+      // Record the failure in the Content Repo so it can be triaged from the sheet
+      if (document.sheetRowIndex && accessToken) {
+        try {
+          await updateRowAfterError(accessToken, document.sheetRowIndex, error);
+        } catch (sheetError) {
+          console.error('Failed to update sheet:', sheetError);
+        }
+      }
+      return NextResponse.json({ error, sites: results }, { status: 500 });
+    }
+
+    const primary = results[0];
+
+    // Update Google Sheet with the first site's WordPress info (status, WordPress ID, live URL, publish time)
+    if (document.sheetRowIndex && accessToken && primary.postId) {
       try {
         const sheetStatus = status === 'publish' ? 'Published' : 'Draft';
         await updateRowAfterPublish(
           accessToken,
           document.sheetRowIndex,
           sheetStatus,
-          result.postId
+          primary.postId,
+          { postUrl: primary.postUrl, publishedAt: primary.publishedAt }
         );
-        console.log(`Updated sheet row ${document.sheetRowIndex} with WordPress ID ${result.postId}`);
+        console.log(`Updated sheet row ${document.sheetRowIndex} with WordPress ID ${primary.postId}`);
       } catch (sheetError) {
         console.error('Failed to update sheet:', sheetError);
         // Don't fail the publish if sheet update fails
@@ -133,13 +403,40 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      postId: result.postId,
-      postUrl: result.postUrl,
-      isUpdate,
+      postId: primary.postId,
+      postUrl: primary.postUrl,
+      isUpdate: primary.isUpdate,
       wpStatus: status,
+      sites: results,
+      wpPosts,
     });
   } catch (error) {
     console.error('Error publishing document:', error);
+    const message = error instanceof Error ? error.message : 'Failed to publish';
+    if (run && document) {
+      try {
+        const recorded = await getStore().listPublishHistory({ runId: run.id, limit: 1 });
+        if (recorded.length === 0) {
+          await recordPublish({
+            documentId: document.id,
+            source: 'manual',
+            action: document.wpPostId ? 'update' : 'create',
+            success: false,
+            runId: run.id,
+            sheetRowIndex: document.sheetRowIndex,
+            driveFileId: document.driveFileId,
+            title: document.metadata?.title,
+            wpPostId: document.wpPostId,
+            error: message,
+            durationMs: Date.now() - startedAt,
+            createdAt: new Date().toISOString(),
+          });
+        }
+        await finishRun(run, { error: message });
+      } catch (historyError) {
+        console.error('Failed to record publish history:', historyError);
+      }
+    }
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to publish' },
       { status: 500 }
@@ -1,57 +1,50 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getCategories, getTags } from '@/lib/wordpress';
-import { WordPressCategory, WordPressUser, WordPressTag } from '@/types';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { getPromotionSites, getSiteProfiles, getWordPressClient } from '@/lib/wordpress';
 
-const getAuthHeader = () => {
-  const username = process.env.WORDPRESS_USERNAME;
-  const password = process.env.WORDPRESS_APP_PASSWORD;
-  const credentials = Buffer.from(`${username}:${password}`).toString('base64');
-  return `Basic ${credentials}`;
-};
-
-async function getUsers(): Promise<WordPressUser[]> {
-  const baseUrl = process.env.WORDPRESS_URL;
-  const response = await fetch(`${baseUrl}/wp-json/wp/v2/users?per_page=100`, {
-    headers: {
-      Authorization: getAuthHeader(),
-    },
-  });
-
-  if (!response.ok) {
-    return [];
-  }
-
-  const users = await response.json();
-  return users.map((u: any) => ({
-    id: u.id,
-    name: u.name,
-    slug: u.slug,
-  }));
-}
-
-export async function GET() {
+// GET - Categories, tags and authors of a site (?site=staging; the first configured site by default),
+// plus the configured sites to choose publish targets from and the staging → production pair
+export async function GET(request: NextRequest) {
   const session = await getServerSession(authOptions);
 
   if (!session) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'view')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'view') }, { status: 403 });
+  }
+
+  let client;
+  try {
+    client = getWordPressClient(request.nextUrl.searchParams.get('site') || undefined);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown WordPress site' },
+      { status: 400 }
+    );
+  }
+
   try {
     const [categories, tags, users] = await Promise.all([
-      getCategories(),
-      getTags(),
-      getUsers(),
+      client.getCategories(),
+      client.getTags(),
+      client.getUsers(),
     ]);
 
     return NextResponse.json({
+      site: client.name,
+      sites: getSiteProfiles().map(({ name, label }) => ({ name, label })),
+      promotion: getPromotionSites(),
       categories,
       tags,
       users,
     });
   } catch (error) {
-    console.error('Error fetching WordPress data:', error);
+    console.error(`Error fetching WordPress data from ${client.name}:`, error);
     return NextResponse.json(
       { error: 'Failed to fetch WordPress data' },
       { status: 500 }
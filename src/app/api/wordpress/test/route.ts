@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { testConnection } from '@/lib/wordpress';
+import { forbiddenMessage, getSessionRole, hasPermission } from '@/lib/roles';
+import { getSiteProfiles, WordPressClient } from '@/lib/wordpress';
 
+// GET - Tests the connection to every configured site
 export async function GET() {
   const session = await getServerSession(authOptions);
 
@@ -10,7 +12,19 @@ export async function GET() {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  const result = await testConnection();
+  const role = getSessionRole(session);
+  if (!hasPermission(role, 'manageSettings')) {
+    return NextResponse.json({ error: forbiddenMessage(role, 'manageSettings') }, { status: 403 });
+  }
+
+  const sites = await Promise.all(
+    getSiteProfiles().map(async (profile) => ({
+      name: profile.name,
+      label: profile.label,
+      url: profile.url,
+      ...(await new WordPressClient(profile).testConnection()),
+    }))
+  );
 
-  return NextResponse.json(result);
+  return NextResponse.json({ sites });
 }
@@ -0,0 +1,63 @@
+'use client';
+
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { FileText, ShieldX, AlertCircle } from 'lucide-react';
+
+// NextAuth error codes passed as ?error=
+const MESSAGES: Record<string, string> = {
+  Configuration: 'Sign-in is not configured correctly. Check the server logs.',
+  Verification: 'The sign-in link is no longer valid. Please try again.',
+  OAuthAccountNotLinked: 'This email is already linked to a different sign-in method.',
+};
+
+function AuthError() {
+  const error = useSearchParams().get('error') || 'Default';
+  const denied = error === 'AccessDenied';
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 text-center">
+      {denied ? (
+        <>
+          <ShieldX className="mx-auto h-12 w-12 text-red-500" />
+          <h2 className="mt-4 text-lg font-medium text-gray-900">Access denied</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            This account is not allowed to use the blog admin. Sign in with your
+            organisation&apos;s Google Workspace account, or ask an admin to add your
+            email to the allow-list.
+          </p>
+        </>
+      ) : (
+        <>
+          <AlertCircle className="mx-auto h-12 w-12 text-amber-500" />
+          <h2 className="mt-4 text-lg font-medium text-gray-900">Sign-in failed</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            {MESSAGES[error] || 'Something went wrong while signing in. Please try again.'}
+          </p>
+        </>
+      )}
+      <Link
+        href="/login"
+        className="mt-6 inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+      >
+        Back to sign in
+      </Link>
+    </div>
+  );
+}
+
+export default function AuthErrorPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="flex justify-center">
+          <FileText className="h-12 w-12 text-primary-600" />
+        </div>
+        <Suspense>
+          <AuthError />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
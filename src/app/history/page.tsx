@@ -0,0 +1,295 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Header } from '@/components/Header';
+import {
+  PublishHistoryEntryCard,
+  describeTrigger,
+  formatDuration,
+} from '@/components/PublishHistoryEntryCard';
+import { PublishHistoryEntry, PublishRun } from '@/types';
+import { RefreshCw, AlertCircle, ChevronDown, ChevronRight, History, X } from 'lucide-react';
+
+type HistoryFilter = { row?: number; wpPostId?: number };
+
+const RUN_KIND_LABELS: Record<PublishRun['kind'], string> = {
+  publish: 'Manual publish',
+  'auto-publish': 'Auto-publish',
+  'job-worker': 'Job worker',
+  promotion: 'Promotion',
+};
+
+function RunStatus({ run }: { run: PublishRun }) {
+  if (run.status === 'running') {
+    return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">Running</span>;
+  }
+  if (run.status === 'failed' || run.failed > 0) {
+    return (
+      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+        {run.status === 'failed' ? 'Failed' : `${run.failed} failed`}
+      </span>
+    );
+  }
+  return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">OK</span>;
+}
+
+export default function HistoryPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [runs, setRuns] = useState<PublishRun[]>([]);
+  const [entries, setEntries] = useState<PublishHistoryEntry[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  const [filterType, setFilterType] = useState<'row' | 'wpPostId'>('row');
+  const [filterValue, setFilterValue] = useState('');
+  const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+  const [runEntries, setRunEntries] = useState<Record<number, PublishHistoryEntry[]>>({});
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (session) {
+      fetchHistory();
+    }
+  }, [session, filter]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (filter.row) params.set('row', String(filter.row));
+      if (filter.wpPostId) params.set('wpPostId', String(filter.wpPostId));
+
+      const response = await fetch(`/api/history?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch history');
+      }
+
+      setRuns(data.runs);
+      setEntries(data.entries || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRun = async (runId: number) => {
+    if (expandedRunId === runId) {
+      setExpandedRunId(null);
+      return;
+    }
+
+    setExpandedRunId(runId);
+    if (runEntries[runId]) return;
+
+    try {
+      const response = await fetch(`/api/history/${runId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch run');
+      }
+
+      setRunEntries((loaded) => ({ ...loaded, [runId]: data.entries }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch run');
+    }
+  };
+
+  const applyFilter = (next: HistoryFilter) => {
+    setFilter(next);
+    setExpandedRunId(null);
+    if (next.row) {
+      setFilterType('row');
+      setFilterValue(String(next.row));
+    } else if (next.wpPostId) {
+      setFilterType('wpPostId');
+      setFilterValue(String(next.wpPostId));
+    } else {
+      setFilterValue('');
+    }
+  };
+
+  const handleFilterSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseInt(filterValue, 10);
+    applyFilter(value > 0 ? { [filterType]: value } : {});
+  };
+
+  const runsById = new Map(runs.map((run) => [run.id, run]));
+  const isFiltered = !!(filter.row || filter.wpPostId);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Publish History</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Every publishing run and what it did to the sheet and WordPress
+            </p>
+          </div>
+          <button
+            onClick={fetchHistory}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </button>
+        </div>
+
+        <form onSubmit={handleFilterSubmit} className="flex items-center gap-2 mb-6">
+          <select
+            value={filterType}
+            onChange={(e) => setFilterType(e.target.value as 'row' | 'wpPostId')}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+          >
+            <option value="row">Sheet row</option>
+            <option value="wpPostId">WordPress post ID</option>
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={filterValue}
+            onChange={(e) => setFilterValue(e.target.value)}
+            placeholder={filterType === 'row' ? 'e.g. 12' : 'e.g. 345'}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700"
+          >
+            Filter
+          </button>
+          {isFiltered && (
+            <button
+              type="button"
+              onClick={() => applyFilter({})}
+              className="inline-flex items-center px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </button>
+          )}
+        </form>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4">
+            <div className="flex">
+              <AlertCircle className="h-5 w-5 text-red-400" />
+              <div className="ml-3">
+                <h3 className="text-sm font-medium text-red-800">Error</h3>
+                <p className="mt-1 text-sm text-red-700">{error}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {status === 'loading' || loading ? (
+          <div className="flex items-center justify-center h-64">
+            <RefreshCw className="h-8 w-8 animate-spin text-primary-600" />
+          </div>
+        ) : isFiltered ? (
+          entries && entries.length > 0 ? (
+            <div className="space-y-3">
+              {entries.map((entry) => (
+                <PublishHistoryEntryCard
+                  key={entry.id}
+                  entry={entry}
+                  run={entry.runId ? runsById.get(entry.runId) : undefined}
+                  onFilter={applyFilter}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+              <History className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Nothing recorded</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                No publishes have been recorded for this {filter.row ? 'sheet row' : 'WordPress post'}.
+              </p>
+            </div>
+          )
+        ) : runs.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+            <History className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No runs yet</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Runs appear here once something is published or auto-publish is triggered.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">
+                <tr>
+                  <th className="px-4 py-3 w-8" />
+                  <th className="px-4 py-3">Started</th>
+                  <th className="px-4 py-3">Run</th>
+                  <th className="px-4 py-3">Triggered by</th>
+                  <th className="px-4 py-3">Rows</th>
+                  <th className="px-4 py-3">WordPress posts</th>
+                  <th className="px-4 py-3">Duration</th>
+                  <th className="px-4 py-3">Result</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {runs.map((run) => (
+                  <Fragment key={run.id}>
+                    <tr onClick={() => toggleRun(run.id)} className="cursor-pointer hover:bg-gray-50 align-top">
+                      <td className="px-4 py-3 text-gray-400">
+                        {expandedRunId === run.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </td>
+                      <td className="px-4 py-3 text-gray-900 whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</td>
+                      <td className="px-4 py-3 text-gray-900">
+                        {RUN_KIND_LABELS[run.kind]}
+                        {run.message && <p className="text-xs text-gray-500">{run.message}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">{describeTrigger(run)}</td>
+                      <td className="px-4 py-3 text-gray-700">{run.rows.join(', ') || '—'}</td>
+                      <td className="px-4 py-3 text-gray-700">{run.wpPostIds.map((id) => `#${id}`).join(', ') || '—'}</td>
+                      <td className="px-4 py-3 text-gray-700 whitespace-nowrap">{formatDuration(run.durationMs)}</td>
+                      <td className="px-4 py-3">
+                        <RunStatus run={run} />
+                        {run.error && <p className="mt-1 text-xs text-red-700">{run.error}</p>}
+                      </td>
+                    </tr>
+                    {expandedRunId === run.id && (
+                      <tr>
+                        <td colSpan={8} className="px-4 py-4 bg-gray-50">
+                          {!runEntries[run.id] ? (
+                            <RefreshCw className="h-5 w-5 animate-spin text-primary-600" />
+                          ) : runEntries[run.id].length === 0 ? (
+                            <p className="text-sm text-gray-500">No publishes were made in this run.</p>
+                          ) : (
+                            <div className="space-y-3">
+                              {runEntries[run.id].map((entry) => (
+                                <PublishHistoryEntryCard key={entry.id} entry={entry} onFilter={applyFilter} />
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -23,7 +23,9 @@ export default function LoginPage() {
       redirect: false,
     });
 
-    if (result?.error) {
+    if (result?.error === 'AccessDenied') {
+      router.push('/auth/error?error=AccessDenied');
+    } else if (result?.error) {
       setError('Invalid email or password');
       setIsLoading(false);
     } else {
@@ -6,8 +6,10 @@ import { useRouter } from 'next/navigation';
 import { Header } from '@/components/Header';
 import { DocumentCard } from '@/components/DocumentCard';
 import { DocumentModal } from '@/components/DocumentModal';
-import { Document } from '@/types';
-import { RefreshCw, FolderOpen, AlertCircle, Zap } from 'lucide-react';
+import { AutoPublishPreviewModal } from '@/components/AutoPublishPreviewModal';
+import { AutoPublishPreview, Document, SitePublishResult, WordPressEdits, WordPressEditsResolution } from '@/types';
+import { getSessionRole, hasPermission } from '@/lib/roles';
+import { RefreshCw, FolderOpen, AlertCircle, Zap, Eye } from 'lucide-react';
 
 export default function Dashboard() {
   const { data: session, status } = useSession();
@@ -18,6 +20,9 @@ export default function Dashboard() {
   const [processingId, setProcessingId] = useState<string | null>(null);
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
   const [autoPublishing, setAutoPublishing] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [previews, setPreviews] = useState<AutoPublishPreview[] | null>(null);
+  const role = getSessionRole(session);
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -85,12 +90,27 @@ export default function Dashboard() {
         throw new Error(data.error || 'Auto-publish failed');
       }
 
-      if (data.processed === 0) {
+      if (data.queued === 0) {
         alert('No items ready to publish. Set status to "ready to post" in the Content Repo sheet.');
-      } else {
-        alert(`Auto-publish complete!\n\n${data.message}\n\nSuccessful: ${data.successful}\nFailed: ${data.failed}`);
-        fetchDocuments(); // Refresh the list
+        return;
       }
+
+      // Start working through the queue now instead of waiting for the worker cron
+      const workerResponse = await fetch('/api/jobs/worker', { method: 'POST' });
+      const summary = await workerResponse.json();
+
+      if (!workerResponse.ok) {
+        throw new Error(summary.error || 'Job worker failed');
+      }
+
+      const remaining = data.queued - summary.completed - summary.failed - summary.dead;
+      alert(
+        `Auto-publish: ${data.message}\n\n` +
+        `Published: ${summary.completed}\nFailed: ${summary.failed + summary.dead}\n` +
+        (summary.retried ? `Retrying later: ${summary.retried}\n` : '') +
+        (remaining > summary.retried ? `Still queued: ${remaining - summary.retried}` : '')
+      );
+      fetchDocuments(); // Refresh the list
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Auto-publish failed');
     } finally {
@@ -98,11 +118,31 @@ export default function Dashboard() {
     }
   };
 
+  const handlePreviewAutoPublish = async () => {
+    setPreviewing(true);
+    try {
+      const response = await fetch('/api/auto-publish?dryRun=1');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Auto-publish preview failed');
+      }
+
+      setPreviews(data.previews);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Auto-publish preview failed');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
   const handlePublish = async (
     doc: Document,
     publishStatus: 'draft' | 'publish',
-    metadata: Document['metadata']
-  ) => {
+    metadata: Document['metadata'],
+    sites: string[],
+    wordPressEdits?: WordPressEditsResolution
+  ): Promise<WordPressEdits[] | void> => {
     const response = await fetch('/api/publish', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -110,28 +150,23 @@ export default function Dashboard() {
         document: { ...doc, metadata },
         status: publishStatus,
         overrideMetadata: metadata,
+        sites,
+        wordPressEdits,
       }),
     });
 
     const data = await response.json();
 
+    // Edited in WordPress since the last publish: the modal asks what to do with the edits
+    if (response.status === 409 && data.wordPressEdits) {
+      return data.wordPressEdits;
+    }
+
     if (!response.ok) {
       throw new Error(data.error || 'Failed to publish');
     }
 
-    // Save WordPress info back to document store
-    await fetch('/api/documents', {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        documentId: doc.id,
-        wpPostId: data.postId,
-        wpPostUrl: data.postUrl,
-        wpStatus: publishStatus,
-      }),
-    });
-
-    // Update document in local state with WordPress info
+    // The publish route has saved the WordPress info to the document store; mirror it in local state
     const updatedDoc: Document = {
       ...doc,
       metadata,
@@ -140,6 +175,8 @@ export default function Dashboard() {
       wpPostUrl: data.postUrl,
       wpStatus: publishStatus,
       wpPublishedAt: new Date().toISOString(),
+      targetSites: sites,
+      wpPosts: data.wpPosts,
     };
 
     setDocuments((docs) =>
@@ -147,7 +184,7 @@ export default function Dashboard() {
     );
 
     const action = data.isUpdate ? 'updated' : (publishStatus === 'draft' ? 'saved as draft' : 'published');
-    alert(`Post ${action}! ${data.postUrl}`);
+    alert(`Post ${action}! ${(data.sites as SitePublishResult[]).map((site) => site.postUrl).join('\n')}`);
     setSelectedDocument(null);
   };
 
@@ -176,18 +213,34 @@ export default function Dashboard() {
             </p>
           </div>
           <div className="flex gap-2">
-            <button
-              onClick={handleAutoPublish}
-              disabled={autoPublishing}
-              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {autoPublishing ? (
-                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-              ) : (
-                <Zap className="h-4 w-4 mr-2" />
-              )}
-              {autoPublishing ? 'Publishing...' : 'Auto-Publish Ready'}
-            </button>
+            {hasPermission(role, 'process') && (
+              <button
+                onClick={handlePreviewAutoPublish}
+                disabled={previewing || autoPublishing}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {previewing ? (
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Eye className="h-4 w-4 mr-2" />
+                )}
+                {previewing ? 'Checking...' : 'Preview Auto-Publish'}
+              </button>
+            )}
+            {hasPermission(role, 'autoPublish') && (
+              <button
+                onClick={handleAutoPublish}
+                disabled={autoPublishing}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {autoPublishing ? (
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Zap className="h-4 w-4 mr-2" />
+                )}
+                {autoPublishing ? 'Publishing...' : 'Auto-Publish Ready'}
+              </button>
+            )}
             <button
               onClick={fetchDocuments}
               className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
@@ -238,8 +291,13 @@ export default function Dashboard() {
           document={selectedDocument}
           onClose={() => setSelectedDocument(null)}
           onPublish={handlePublish}
+          onUpdate={(doc) => setDocuments((docs) => docs.map((d) => (d.id === doc.id ? doc : d)))}
         />
       )}
+
+      {previews && (
+        <AutoPublishPreviewModal previews={previews} onClose={() => setPreviews(null)} />
+      )}
     </div>
   );
 }
@@ -4,13 +4,24 @@ import { useEffect, useState } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { Header } from '@/components/Header';
-import { CheckCircle, XCircle, Loader2, ExternalLink } from 'lucide-react';
+import { getSessionRole, hasPermission } from '@/lib/roles';
+import { CheckCircle, XCircle, Loader2, ExternalLink, Lock } from 'lucide-react';
+
+interface SiteStatus {
+  name: string;
+  label: string;
+  url: string;
+  success: boolean;
+  error?: string;
+}
 
 export default function SettingsPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
-  const [wordpressStatus, setWordpressStatus] = useState<'loading' | 'connected' | 'error'>('loading');
+  const [testingWordPress, setTestingWordPress] = useState(true);
+  const [wordpressSites, setWordpressSites] = useState<SiteStatus[]>([]);
   const [wordpressError, setWordpressError] = useState<string | null>(null);
+  const canManageSettings = hasPermission(getSessionRole(session), 'manageSettings');
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -19,27 +30,27 @@ export default function SettingsPage() {
   }, [status, router]);
 
   useEffect(() => {
-    if (session) {
+    if (session && canManageSettings) {
       testWordPressConnection();
     }
-  }, [session]);
+  }, [session, canManageSettings]);
 
   const testWordPressConnection = async () => {
-    setWordpressStatus('loading');
+    setTestingWordPress(true);
     try {
       const response = await fetch('/api/wordpress/test');
       const data = await response.json();
 
-      if (data.success) {
-        setWordpressStatus('connected');
-        setWordpressError(null);
-      } else {
-        setWordpressStatus('error');
-        setWordpressError(data.error);
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to connect to WordPress');
       }
+
+      setWordpressSites(data.sites);
+      setWordpressError(null);
     } catch (err) {
-      setWordpressStatus('error');
-      setWordpressError('Failed to connect to WordPress');
+      setWordpressError(err instanceof Error ? err.message : 'Failed to connect to WordPress');
+    } finally {
+      setTestingWordPress(false);
     }
   };
 
@@ -56,6 +67,23 @@ export default function SettingsPage() {
     );
   }
 
+  if (!canManageSettings) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+            <Lock className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">Admins only</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Ask an admin to change the settings, or to give your account admin access.
+            </p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
   const hasGoogleToken = !!(session as any)?.accessToken;
 
   return (
@@ -102,30 +130,19 @@ export default function SettingsPage() {
               <div>
                 <h2 className="text-lg font-medium text-gray-900">WordPress</h2>
                 <p className="text-sm text-gray-500 mt-1">
-                  Publish articles to your WordPress site
+                  Publish articles to your WordPress sites
                 </p>
               </div>
               <div className="flex items-center space-x-2">
-                {wordpressStatus === 'loading' && (
+                {testingWordPress && (
                   <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
                 )}
-                {wordpressStatus === 'connected' && (
-                  <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800">
-                    <CheckCircle className="h-4 w-4 mr-1" />
-                    Connected
-                  </span>
-                )}
-                {wordpressStatus === 'error' && (
-                  <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800">
-                    <XCircle className="h-4 w-4 mr-1" />
-                    Error
-                  </span>
-                )}
                 <button
                   onClick={testWordPressConnection}
-                  className="text-sm text-primary-600 hover:text-primary-700"
+                  disabled={testingWordPress}
+                  className="text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50"
                 >
-                  Test connection
+                  Test connections
                 </button>
               </div>
             </div>
@@ -134,6 +151,51 @@ export default function SettingsPage() {
                 {wordpressError}
               </div>
             )}
+            {wordpressSites.length > 0 && (
+              <ul className="mt-4 divide-y divide-gray-100 border-t border-gray-100">
+                {wordpressSites.map((site) => (
+                  <li key={site.name} className="py-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {site.label}
+                          <span className="ml-2 text-xs font-normal text-gray-400">{site.name}</span>
+                        </p>
+                        {site.url ? (
+                          <a
+                            href={site.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center text-xs text-gray-500 hover:text-gray-700"
+                          >
+                            {site.url}
+                            <ExternalLink className="h-3 w-3 ml-1" />
+                          </a>
+                        ) : (
+                          <p className="text-xs text-gray-500">No URL configured</p>
+                        )}
+                      </div>
+                      {site.success ? (
+                        <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800">
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Connected
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800">
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Error
+                        </span>
+                      )}
+                    </div>
+                    {site.error && (
+                      <div className="mt-2 p-3 bg-red-50 rounded-md text-sm text-red-700">
+                        {site.error}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
           {/* Configuration Guide */}
@@ -159,14 +221,17 @@ export default function SettingsPage() {
                   <li>Scroll to "Application Passwords"</li>
                   <li>Create a new application password</li>
                   <li>Add the credentials to your .env file</li>
+                  <li>For more sites, list their names in WORDPRESS_SITES and set WORDPRESS_&lt;NAME&gt;_URL, _USERNAME and _APP_PASSWORD for each</li>
                 </ul>
               </div>
 
               <div>
-                <h3 className="font-medium text-gray-900">3. Claude API Setup</h3>
+                <h3 className="font-medium text-gray-900">3. AI Provider Setup</h3>
                 <ul className="mt-2 list-disc list-inside space-y-1">
-                  <li>Get an API key from console.anthropic.com</li>
-                  <li>Add it to ANTHROPIC_API_KEY in .env</li>
+                  <li>Get an API key from console.anthropic.com and add it to ANTHROPIC_API_KEY in .env</li>
+                  <li>Or set AI_PROVIDER=openai with OPENAI_API_KEY</li>
+                  <li>Use AI_PROVIDER=stub for offline development</li>
+                  <li>Optionally set AI_MODEL to choose a specific model</li>
                 </ul>
               </div>
             </div>
@@ -0,0 +1,168 @@
+'use client';
+
+import { AutoPublishPreview, PreviewTerm } from '@/types';
+import { X, AlertCircle, AlertTriangle, CheckCircle, ExternalLink } from 'lucide-react';
+
+interface AutoPublishPreviewModalProps {
+  previews: AutoPublishPreview[];
+  onClose: () => void;
+}
+
+function TermList({ terms }: { terms: PreviewTerm[] }) {
+  if (terms.length === 0) return <span className="text-gray-400">none</span>;
+
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      {terms.map((term) => (
+        <span
+          key={term.name}
+          className={`inline-block px-2 py-0.5 rounded text-xs ${
+            term.id ? 'bg-gray-100 text-gray-700' : 'bg-amber-100 text-amber-800'
+          }`}
+          title={term.id ? `Existing term ID ${term.id}` : 'Will be created'}
+        >
+          {term.name}
+          {!term.id && ' (new)'}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+function PreviewRow({ preview }: { preview: AutoPublishPreview }) {
+  const blocked = preview.problems.length > 0;
+
+  return (
+    <div className={`rounded-lg border p-4 ${blocked ? 'border-red-200 bg-red-50/40' : 'border-gray-200'}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-xs text-gray-500">Row {preview.row}</p>
+          <h3 className="text-sm font-medium text-gray-900 truncate">{preview.title}</h3>
+        </div>
+        {blocked ? (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 flex-shrink-0">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            Blocked
+          </span>
+        ) : (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 flex-shrink-0">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            {preview.action === 'update' ? `Would update #${preview.wpPostId}` : 'Would create'}
+          </span>
+        )}
+      </div>
+
+      <dl className="mt-3 grid grid-cols-[8rem_1fr] gap-x-3 gap-y-1 text-sm">
+        {preview.sites.length > 0 && (
+          <>
+            <dt className="text-gray-500">Sites</dt>
+            <dd className="text-gray-900">{preview.sites.join(', ')}</dd>
+          </>
+        )}
+        <dt className="text-gray-500">Slug</dt>
+        <dd className="text-gray-900 font-mono text-xs pt-0.5">{preview.slug || '—'}</dd>
+        <dt className="text-gray-500">Post date</dt>
+        <dd className="text-gray-900">{preview.postDate || 'Now'}</dd>
+        <dt className="text-gray-500">Categories</dt>
+        <dd><TermList terms={preview.categories} /></dd>
+        <dt className="text-gray-500">Tags</dt>
+        <dd><TermList terms={preview.tags} /></dd>
+        <dt className="text-gray-500">Featured image</dt>
+        <dd className="text-gray-900">
+          {preview.featuredImage?.filename
+            ? preview.featuredImage.mimeType
+              ? `${preview.featuredImage.filename} (${preview.featuredImage.mimeType}, ${preview.featuredImage.sizeKb} KB)`
+              : preview.featuredImage.filename
+            : preview.featuredImage?.error
+              ? <span className="text-amber-700">{preview.featuredImage.error}</span>
+              : <span className="text-gray-400">none</span>}
+        </dd>
+        <dt className="text-gray-500">Content</dt>
+        <dd className="text-gray-900">
+          {preview.wordCount} words, {preview.inlineImages} inline image{preview.inlineImages === 1 ? '' : 's'}
+        </dd>
+        {preview.missingFields.length > 0 && (
+          <>
+            <dt className="text-gray-500">Blank in sheet</dt>
+            <dd className="text-gray-900">{preview.missingFields.join(', ')}</dd>
+          </>
+        )}
+        {preview.aiFilledFields.length > 0 && (
+          <>
+            <dt className="text-gray-500">Left to AI</dt>
+            <dd className="text-amber-700">{preview.aiFilledFields.join(', ')}</dd>
+          </>
+        )}
+      </dl>
+
+      {preview.slugCollision && (
+        <a
+          href={preview.slugCollision.postUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-2 inline-flex items-center text-xs text-blue-600 hover:text-blue-800"
+        >
+          <ExternalLink className="h-3 w-3 mr-1" />
+          View conflicting post
+        </a>
+      )}
+
+      {preview.problems.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {preview.problems.map((problem) => (
+            <li key={problem} className="flex items-start text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 mr-1.5 mt-0.5 flex-shrink-0" />
+              {problem}
+            </li>
+          ))}
+        </ul>
+      )}
+      {preview.warnings.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {preview.warnings.map((warning) => (
+            <li key={warning} className="flex items-start text-sm text-amber-700">
+              <AlertTriangle className="h-4 w-4 mr-1.5 mt-0.5 flex-shrink-0" />
+              {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function AutoPublishPreviewModal({ previews, onClose }: AutoPublishPreviewModalProps) {
+  const blocked = previews.filter((p) => p.problems.length > 0).length;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
+        <div className="relative transform overflow-hidden rounded-lg bg-white text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-3xl max-h-[90vh] flex flex-col">
+          <div className="flex items-center justify-between px-6 py-4 border-b bg-white">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Auto-Publish Preview</h2>
+              <p className="text-sm text-gray-500">
+                {previews.length} ready row{previews.length === 1 ? '' : 's'}: {previews.length - blocked} would publish,{' '}
+                {blocked} blocked. Nothing has been written to WordPress or the sheet.
+              </p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-500 flex-shrink-0">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="px-6 py-4 overflow-y-auto flex-1 space-y-3">
+            {previews.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No items ready to publish. Set status to &quot;ready to post&quot; in the Content Repo sheet.
+              </p>
+            ) : (
+              previews.map((preview) => <PreviewRow key={preview.row} preview={preview} />)
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { WordPressCategory } from '@/types';
+import { buildCategoryTree, CategoryNode, decodeTermName, parseCategoryList } from '@/lib/categories';
+import { X } from 'lucide-react';
+
+interface CategoryTreeSelectProps {
+  categories: WordPressCategory[]; // The site's live taxonomy
+  value: string[]; // Selected category paths
+  onChange: (paths: string[]) => void;
+}
+
+const samePath = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function CategoryTreeSelect({ categories, value, onChange }: CategoryTreeSelectProps) {
+  const [newPath, setNewPath] = useState('');
+  const tree = buildCategoryTree(categories);
+
+  const allPaths: string[] = [];
+  const collect = (nodes: CategoryNode[]) => nodes.forEach((node) => {
+    allPaths.push(node.path);
+    collect(node.children);
+  });
+  collect(tree);
+
+  // Paths from the sheet or typed in that WordPress doesn't have yet
+  const newPaths = value.filter((path) => !allPaths.some((p) => samePath(p, path)));
+
+  const isSelected = (path: string) => value.some((p) => samePath(p, path));
+
+  const toggle = (path: string) => {
+    onChange(isSelected(path) ? value.filter((p) => !samePath(p, path)) : [...value, path]);
+  };
+
+  const addPaths = () => {
+    const added = parseCategoryList(newPath).filter((path) => !isSelected(path));
+    if (added.length > 0) onChange([...value, ...added]);
+    setNewPath('');
+  };
+
+  const renderNodes = (nodes: CategoryNode[], depth: number) =>
+    nodes.map((node) => (
+      <div key={node.category.id}>
+        <label
+          className="flex items-center gap-2 py-0.5 text-sm text-gray-700 cursor-pointer"
+          style={{ paddingLeft: `${depth * 1.25}rem` }}
+        >
+          <input
+            type="checkbox"
+            checked={isSelected(node.path)}
+            onChange={() => toggle(node.path)}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          {decodeTermName(node.category.name)}
+        </label>
+        {renderNodes(node.children, depth + 1)}
+      </div>
+    ));
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-48 overflow-y-auto rounded-md border border-gray-300 px-3 py-2">
+        {tree.length > 0 ? renderNodes(tree, 0) : <p className="text-sm text-gray-400">No categories on this site yet</p>}
+      </div>
+
+      {newPaths.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {newPaths.map((path) => (
+            <span
+              key={path}
+              className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-amber-100 text-amber-800"
+              title="Will be created when the post is published"
+            >
+              {path} (new)
+              <button onClick={() => toggle(path)} className="ml-1 hover:text-amber-900">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={newPath}
+        onChange={(e) => setNewPath(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            addPaths();
+          }
+        }}
+        onBlur={addPaths}
+        placeholder="New category, e.g. Investing > Index Funds"
+        className="block w-full rounded-md border border-gray-300 px-3 py-1.5 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { useMemo } from 'react';
+import { diffWords, htmlToText } from '@/lib/content-diff';
+
+interface ContentDiffProps {
+  before: string; // HTML
+  after: string; // HTML
+}
+
+// Word-level diff of the text of two HTML fragments
+export function ContentDiff({ before, after }: ContentDiffProps) {
+  const parts = useMemo(() => diffWords(htmlToText(before), htmlToText(after)), [before, after]);
+
+  return (
+    <p className="text-sm text-gray-800 whitespace-pre-line leading-relaxed">
+      {parts.map((part, i) => {
+        if (part.op === 'delete') {
+          return <del key={i} className="bg-red-100 text-red-800">{part.value}</del>;
+        }
+        if (part.op === 'insert') {
+          return <ins key={i} className="bg-green-100 text-green-800 no-underline">{part.value}</ins>;
+        }
+        return <span key={i}>{part.value}</span>;
+      })}
+    </p>
+  );
+}
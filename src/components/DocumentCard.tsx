@@ -1,7 +1,9 @@
 'use client';
 
+import { useSession } from 'next-auth/react';
 import { Document } from '@/types';
-import { FileText, File, FileCode, Clock, CheckCircle, AlertCircle, Loader2, ExternalLink } from 'lucide-react';
+import { getSessionRole, hasPermission } from '@/lib/roles';
+import { FileText, File, FileCode, Clock, CheckCircle, AlertCircle, Loader2, ExternalLink, RefreshCw } from 'lucide-react';
 
 interface DocumentCardProps {
   document: Document;
@@ -11,6 +13,8 @@ interface DocumentCardProps {
 }
 
 export function DocumentCard({ document, onProcess, onView, isProcessing }: DocumentCardProps) {
+  const canProcess = hasPermission(getSessionRole(useSession().data), 'process');
+
   const getFileIcon = () => {
     if (document.mimeType.includes('google-apps.document')) {
       return <FileText className="h-8 w-8 text-blue-500" />;
@@ -95,12 +99,27 @@ export function DocumentCard({ document, onProcess, onView, isProcessing }: Docu
           )}
           <div className="mt-2 flex items-center text-xs text-gray-400">
             <span>Modified: {new Date(document.modifiedTime).toLocaleDateString()}</span>
+            {/* Edited in Drive after the last publish */}
+            {document.outOfSyncSites && document.outOfSyncSites.length > 0 && (
+              <span
+                className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full font-medium bg-amber-100 text-amber-800"
+                title={`Changed since published to ${document.outOfSyncSites.join(', ')}`}
+              >
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Out of sync
+              </span>
+            )}
           </div>
           {document.metadata && (
             <div className="mt-2 flex flex-wrap gap-1">
-              <span className="inline-block px-2 py-0.5 bg-primary-100 text-primary-700 rounded text-xs">
-                {document.metadata.category}
-              </span>
+              {document.metadata.categories.map((path) => (
+                <span
+                  key={path}
+                  className="inline-block px-2 py-0.5 bg-primary-100 text-primary-700 rounded text-xs"
+                >
+                  {path}
+                </span>
+              ))}
               {document.metadata.tags.slice(0, 3).map((tag) => (
                 <span
                   key={tag}
@@ -113,6 +132,12 @@ export function DocumentCard({ document, onProcess, onView, isProcessing }: Docu
           )}
         </div>
       </div>
+      {/* Last publish error recorded in the Content Repo */}
+      {document.status === 'error' && document.error && (
+        <p className="mt-3 text-xs text-red-600 line-clamp-2" title={document.error}>
+          {document.error}
+        </p>
+      )}
       {/* WordPress link if published */}
       {document.wpPostUrl && (
         <div className="mt-3 flex items-center text-xs">
@@ -129,7 +154,7 @@ export function DocumentCard({ document, onProcess, onView, isProcessing }: Docu
       )}
 
       <div className="mt-4 flex space-x-2">
-        {document.status === 'pending' && (
+        {document.status === 'pending' && canProcess && (
           <button
             onClick={() => onProcess(document.id)}
             disabled={isProcessing}
@@ -1,26 +1,82 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Document, DocumentMetadata, WordPressCategory, WordPressUser, WordPressTag } from '@/types';
-import { X, Loader2, ExternalLink, ChevronDown, ChevronUp } from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import {
+  ContentFormat,
+  Document,
+  DocumentMetadata,
+  EditorialPassResult,
+  MetadataField,
+  WordPressCategory,
+  WordPressEdits,
+  WordPressEditsResolution,
+  WordPressUser,
+  WordPressTag,
+} from '@/types';
+import { X, Loader2, ExternalLink, ChevronDown, ChevronUp, Sparkles, RefreshCw, Image as ImageIcon } from 'lucide-react';
+import { SourceBadge } from './SourceBadge';
+import { EditorialReview } from './EditorialReview';
+import { ContentDiff } from './ContentDiff';
+import { WordPressEditsReview } from './WordPressEditsReview';
+import { FeaturedImagePicker } from './FeaturedImagePicker';
+import { CategoryTreeSelect } from './CategoryTreeSelect';
+import { getSessionRole, hasPermission } from '@/lib/roles';
+
+// Fields whose provenance is tracked; editing one marks it as reviewed
+const TRACKED_FIELDS: MetadataField[] = [
+  'title', 'slug', 'description', 'excerpt', 'categories', 'tags', 'author', 'seoTitle', 'seoDescription',
+];
 
 interface DocumentModalProps {
   document: Document;
   onClose: () => void;
-  onPublish: (doc: Document, status: 'draft' | 'publish', metadata: DocumentMetadata) => Promise<void>;
+  // Resolves with the posts edited in WordPress when publishing stopped to ask about them
+  onPublish: (
+    doc: Document,
+    status: 'draft' | 'publish',
+    metadata: DocumentMetadata,
+    sites: string[],
+    wordPressEdits?: WordPressEditsResolution
+  ) => Promise<WordPressEdits[] | void>;
+  onUpdate: (doc: Document) => void;
 }
 
-export function DocumentModal({ document, onClose, onPublish }: DocumentModalProps) {
+export function DocumentModal({ document, onClose, onPublish, onUpdate }: DocumentModalProps) {
+  const role = getSessionRole(useSession().data);
+  const canEdit = hasPermission(role, 'process');
+  // Turning a live post back into a draft takes it offline, so it needs publisher access too
+  const canSaveDraft = hasPermission(role, document.wpStatus === 'publish' ? 'publish' : 'saveDraft');
+  const canPublish = hasPermission(role, 'publish');
   const [isPublishing, setIsPublishing] = useState(false);
+  const [isPromoting, setIsPromoting] = useState(false);
   const [metadata, setMetadata] = useState<DocumentMetadata>(document.metadata!);
   const [activeTab, setActiveTab] = useState<'preview' | 'metadata' | 'seo'>('metadata');
   const [wpData, setWpData] = useState<{
+    sites: Array<{ name: string; label: string }>;
+    promotion: { staging: string; production: string } | null;
     categories: WordPressCategory[];
     users: WordPressUser[];
     tags: WordPressTag[];
   } | null>(null);
+  const [targetSites, setTargetSites] = useState<string[]>(document.targetSites || []);
   const [loadingWpData, setLoadingWpData] = useState(true);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [content, setContent] = useState(document.content || '');
+  const [editorial, setEditorial] = useState<EditorialPassResult | null>(null);
+  const [accepted, setAccepted] = useState<Record<number, boolean>>({});
+  const [editorialBusy, setEditorialBusy] = useState(false);
+  const [editorialError, setEditorialError] = useState<string | null>(null);
+  // Current Google Doc content, fetched for review before re-syncing WordPress
+  const [resync, setResync] = useState<{ previousContent: string; content: string; revision?: string } | null>(null);
+  const [resyncBusy, setResyncBusy] = useState(false);
+  // A publish held back because the posts were edited in WordPress
+  const [wpConflict, setWpConflict] = useState<{ doc: Document; status: 'draft' | 'publish'; edits: WordPressEdits[] } | null>(null);
+  const [pickingImage, setPickingImage] = useState(false);
+  // Drive images come from the asset cache, media library picks straight from WordPress
+  const featuredImagePreview = metadata.featuredImageAssetId
+    ? `/api/assets/${encodeURIComponent(metadata.featuredImageAssetId)}?variant=thumbnail`
+    : metadata.featuredImage;
 
   useEffect(() => {
     fetchWordPressData();
@@ -32,6 +88,8 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
       if (response.ok) {
         const data = await response.json();
         setWpData(data);
+        // Documents that don't name a site go to the first configured one
+        setTargetSites((sites) => (sites.length > 0 ? sites : [data.site]));
       }
     } catch (error) {
       console.error('Failed to fetch WordPress data:', error);
@@ -40,15 +98,166 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
     }
   };
 
-  const handlePublish = async (status: 'draft' | 'publish') => {
+  // Apply an edit and record the edited fields as manually set
+  const updateMetadata = (updates: Partial<DocumentMetadata>) => {
+    const sources = { ...metadata.metadataSources };
+    for (const field of Object.keys(updates) as MetadataField[]) {
+      if (TRACKED_FIELDS.includes(field)) {
+        sources[field] = 'manual';
+      }
+    }
+    setMetadata({ ...metadata, ...updates, metadataSources: sources });
+  };
+
+  // The pick is already saved to the sheet and the store; fields it doesn't set belonged to the old image
+  const handleImagePicked = (fields: Partial<DocumentMetadata>) => {
+    const updated: DocumentMetadata = {
+      ...metadata,
+      featuredImage: undefined,
+      featuredImageId: undefined,
+      featuredImageAssetId: undefined,
+      featuredImageMimeType: undefined,
+      ...fields,
+    };
+    setMetadata(updated);
+    onUpdate({ ...document, metadata: updated });
+    setPickingImage(false);
+  };
+
+  const unreviewedFields = TRACKED_FIELDS.filter((field) => metadata.metadataSources?.[field] === 'ai');
+
+  const runEditorialPass = async () => {
+    setEditorialBusy(true);
+    setEditorialError(null);
+    try {
+      const response = await fetch('/api/documents/editorial', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentId: document.id }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Editorial pass failed');
+      }
+      setEditorial(data);
+      setAccepted({});
+    } catch (error) {
+      setEditorialError(error instanceof Error ? error.message : 'Editorial pass failed');
+    } finally {
+      setEditorialBusy(false);
+    }
+  };
+
+  // Rebuild the content from accepted changes only and store it for publishing
+  const applyEditorialChanges = async () => {
+    if (!editorial) return;
+
+    const revised = new Map(editorial.changes.map((change) => [change.index, change.revised]));
+    const newContent = editorial.blocks
+      .map((block, index) => (accepted[index] && revised.has(index) ? revised.get(index)! : block))
+      .join('\n\n');
+
+    setEditorialBusy(true);
+    setEditorialError(null);
+    try {
+      const response = await fetch('/api/documents', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentId: document.id, content: newContent }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save content');
+      }
+      setContent(newContent);
+      setEditorial(null);
+      onUpdate({ ...document, content: newContent });
+    } catch (error) {
+      setEditorialError(error instanceof Error ? error.message : 'Failed to save content');
+    } finally {
+      setEditorialBusy(false);
+    }
+  };
+
+  const acceptedCount = editorial?.changes.filter((change) => accepted[change.index]).length || 0;
+
+  const publish = async (doc: Document, status: 'draft' | 'publish', resolution?: WordPressEditsResolution) => {
     setIsPublishing(true);
     try {
-      await onPublish(document, status, metadata);
+      const edits = await onPublish(doc, status, metadata, targetSites, resolution);
+      setWpConflict(edits && edits.length > 0 ? { doc, status, edits } : null);
     } finally {
       setIsPublishing(false);
     }
   };
 
+  const handlePublish = (status: 'draft' | 'publish') => publish({ ...document, content }, status);
+
+  // Copies the staging post to production; refused when the Google Doc changed since staging
+  const handlePromote = async () => {
+    setIsPromoting(true);
+    try {
+      const response = await fetch('/api/promote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentId: document.id }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Promotion failed');
+      }
+
+      onUpdate({ ...document, wpPosts: data.document.wpPosts });
+      const warnings = data.warnings.length > 0 ? `\n\n${data.warnings.join('\n')}` : '';
+      alert(`Promoted to production! ${data.postUrl}${warnings}`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Promotion failed');
+    } finally {
+      setIsPromoting(false);
+    }
+  };
+
+  const outOfSyncSites = document.outOfSyncSites || [];
+
+  const loadResync = async () => {
+    setResyncBusy(true);
+    try {
+      const response = await fetch('/api/documents/resync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentId: document.id, driveFileId: document.driveFileId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch the Google Doc');
+      }
+      setResync(data);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to fetch the Google Doc');
+    } finally {
+      setResyncBusy(false);
+    }
+  };
+
+  // Publishes the reviewed Google Doc content over the existing posts, keeping their status
+  const confirmResync = async () => {
+    if (!resync) return;
+    await publish(
+      { ...document, content: resync.content, contentRevision: resync.revision, outOfSyncSites: [] },
+      document.wpStatus || 'draft'
+    );
+  };
+
+  const canPromote = canPublish && !!wpData?.promotion && !!document.wpPosts?.[wpData.promotion.staging];
+
+  const toggleTargetSite = (site: string) => {
+    setTargetSites((sites) =>
+      sites.includes(site) ? sites.filter((s) => s !== site) : [...sites, site]
+    );
+  };
+
+  const linkedPosts = document.wpPosts ? Object.entries(document.wpPosts) : [];
+
   const generateSlug = (title: string) => {
     return title
       .toLowerCase()
@@ -109,61 +318,218 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
 
           {/* Content */}
           <div className="px-6 py-4 overflow-y-auto flex-1">
-            {activeTab === 'preview' && (
-              <div className="prose prose-sm max-w-none">
-                <div dangerouslySetInnerHTML={{ __html: document.content || '' }} />
+            {wpConflict && (
+              <WordPressEditsReview
+                edits={wpConflict.edits}
+                content={wpConflict.doc.content || ''}
+                busy={isPublishing}
+                onResolve={(resolution) => publish(wpConflict.doc, wpConflict.status, resolution)}
+                onAbort={() => setWpConflict(null)}
+              />
+            )}
+
+            {/* The Google Doc was edited after it was published */}
+            {outOfSyncSites.length > 0 && canPublish && !resync && !wpConflict && (
+              <div className="mb-4 flex items-center justify-between rounded-md bg-amber-50 border border-amber-200 px-3 py-2 text-sm text-amber-800">
+                <span>
+                  The Google Doc was edited after it was published to {outOfSyncSites.join(', ')}.
+                </span>
+                <button
+                  onClick={loadResync}
+                  disabled={resyncBusy || isPublishing}
+                  className="inline-flex items-center flex-shrink-0 ml-4 px-3 py-1.5 text-sm font-medium text-amber-800 bg-white border border-amber-300 rounded-md hover:bg-amber-100 disabled:opacity-50"
+                >
+                  {resyncBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                  Re-sync to WordPress
+                </button>
+              </div>
+            )}
+
+            {resync && !wpConflict && (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-500">
+                    Changes in the Google Doc since it was last published. Metadata is kept as shown in the other tabs.
+                  </p>
+                  <div className="flex space-x-2 flex-shrink-0 ml-4">
+                    <button
+                      onClick={() => setResync(null)}
+                      disabled={isPublishing}
+                      className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={confirmResync}
+                      disabled={isPublishing || targetSites.length === 0}
+                      className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+                    >
+                      {isPublishing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Update WordPress
+                    </button>
+                  </div>
+                </div>
+                {resync.previousContent === resync.content ? (
+                  <div className="rounded-md bg-green-50 border border-green-200 px-3 py-2 text-sm text-green-800">
+                    The content is unchanged; updating marks the posts as in sync.
+                  </div>
+                ) : (
+                  <div className="rounded-lg border border-gray-200 p-3">
+                    <ContentDiff before={resync.previousContent} after={resync.content} />
+                  </div>
+                )}
               </div>
             )}
 
-            {activeTab === 'metadata' && (
+            {!resync && !wpConflict && activeTab === 'preview' && (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-500">
+                    {editorial
+                      ? `${editorial.changes.length} suggested change${editorial.changes.length === 1 ? '' : 's'}. Accept or reject each one; only accepted changes are published.`
+                      : 'Run an editorial pass to get grammar and clarity suggestions. Links and headings are kept as-is.'}
+                  </p>
+                  {editorial ? (
+                    <div className="flex space-x-2 flex-shrink-0 ml-4">
+                      <button
+                        onClick={() => setEditorial(null)}
+                        disabled={editorialBusy}
+                        className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Discard
+                      </button>
+                      <button
+                        onClick={() => setAccepted(Object.fromEntries(editorial.changes.map((change) => [change.index, true])))}
+                        disabled={editorialBusy || editorial.changes.length === 0}
+                        className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Accept All
+                      </button>
+                      <button
+                        onClick={applyEditorialChanges}
+                        disabled={editorialBusy || acceptedCount === 0}
+                        className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+                      >
+                        {editorialBusy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Apply {acceptedCount} Accepted
+                      </button>
+                    </div>
+                  ) : canEdit && (
+                    <button
+                      onClick={runEditorialPass}
+                      disabled={editorialBusy || !content}
+                      className="inline-flex items-center flex-shrink-0 ml-4 px-3 py-1.5 text-sm font-medium text-primary-700 bg-primary-50 border border-primary-200 rounded-md hover:bg-primary-100 disabled:opacity-50"
+                    >
+                      {editorialBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+                      Editorial Pass
+                    </button>
+                  )}
+                </div>
+
+                {editorialError && (
+                  <div className="rounded-md bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-700">
+                    {editorialError}
+                  </div>
+                )}
+
+                {editorial ? (
+                  <EditorialReview
+                    changes={editorial.changes}
+                    accepted={accepted}
+                    onDecide={(index, accept) => setAccepted({ ...accepted, [index]: accept })}
+                  />
+                ) : (
+                  <div className="prose prose-sm max-w-none">
+                    <div dangerouslySetInnerHTML={{ __html: content }} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!resync && !wpConflict && activeTab === 'metadata' && (
               <div className="space-y-5">
-                {/* Featured Image Preview */}
-                {metadata.featuredImageData && metadata.featuredImageMimeType && (
-                  <div className="bg-gray-50 rounded-lg p-4">
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Featured Image</label>
+                {/* Featured Image */}
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-700">Featured Image</label>
+                    {canEdit && !pickingImage && (
+                      <button
+                        onClick={() => setPickingImage(true)}
+                        className="inline-flex items-center text-xs font-medium text-primary-600 hover:text-primary-700"
+                      >
+                        <ImageIcon className="h-3.5 w-3.5 mr-1" />
+                        {featuredImagePreview ? 'Change image' : 'Choose image'}
+                      </button>
+                    )}
+                  </div>
+                  {pickingImage ? (
+                    <FeaturedImagePicker
+                      documentId={document.id}
+                      photoLink={metadata.photoLink}
+                      site={targetSites[0] || wpData?.sites[0]?.name || ''}
+                      altText={metadata.featuredImageAlt}
+                      onPicked={handleImagePicked}
+                      onCancel={() => setPickingImage(false)}
+                    />
+                  ) : featuredImagePreview ? (
                     <div className="flex items-start gap-4">
                       <img
-                        src={`data:${metadata.featuredImageMimeType};base64,${metadata.featuredImageData}`}
-                        alt="Featured"
+                        src={featuredImagePreview}
+                        alt={metadata.featuredImageAlt || 'Featured'}
                         className="w-48 h-32 object-cover rounded-lg border border-gray-200"
                       />
-                      <div className="text-sm text-gray-600">
+                      <div className="flex-1 text-sm text-gray-600">
                         <p className="font-medium">{metadata.featuredImageName || 'Featured image'}</p>
                         <p className="text-xs text-gray-400 mt-1">
-                          This image will be uploaded to WordPress when you publish.
+                          {metadata.featuredImageAssetId
+                            ? 'This image will be uploaded to WordPress when you publish.'
+                            : 'This image is already in the WordPress media library.'}
                         </p>
-                        {metadata.metadataSource === 'sheet' && (
+                        {metadata.photoLink && (
                           <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800 mt-2">
                             From Content Repo
                           </span>
                         )}
+                        <input
+                          type="text"
+                          value={metadata.featuredImageAlt || ''}
+                          onChange={(e) => updateMetadata({ featuredImageAlt: e.target.value })}
+                          placeholder="Alt text (describe the image)"
+                          className="mt-3 block w-full rounded-md border border-gray-300 px-3 py-1.5 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                        />
+                        <input
+                          type="text"
+                          value={metadata.featuredImageCaption || ''}
+                          onChange={(e) => updateMetadata({ featuredImageCaption: e.target.value })}
+                          placeholder="Caption (optional)"
+                          className="mt-2 block w-full rounded-md border border-gray-300 px-3 py-1.5 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                        />
                       </div>
                     </div>
-                  </div>
-                )}
+                  ) : (
+                    <p className="text-sm text-gray-500">No featured image</p>
+                  )}
+                </div>
 
-                {/* Metadata Source Indicator */}
-                {metadata.metadataSource && (
-                  <div className="flex items-center gap-2">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      metadata.metadataSource === 'sheet'
-                        ? 'bg-green-100 text-green-800'
-                        : 'bg-blue-100 text-blue-800'
-                    }`}>
-                      {metadata.metadataSource === 'sheet' ? '📊 From Content Repo' : '🤖 AI Generated'}
-                    </span>
+                {/* Fields generated by AI that nobody has reviewed yet */}
+                {unreviewedFields.length > 0 && (
+                  <div className="flex items-center gap-2 rounded-md bg-amber-50 border border-amber-200 px-3 py-2 text-sm text-amber-800">
+                    🤖 {unreviewedFields.length} field{unreviewedFields.length === 1 ? ' was' : 's were'} generated by AI and
+                    not reviewed yet. Editing a field marks it as reviewed.
                   </div>
                 )}
 
                 {/* Title */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Title *</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Title *
+                    <SourceBadge source={metadata.metadataSources?.title} />
+                  </label>
                   <input
                     type="text"
                     value={metadata.title}
                     onChange={(e) => {
-                      setMetadata({
-                        ...metadata,
+                      updateMetadata({
                         title: e.target.value,
                         slug: generateSlug(e.target.value)
                       });
@@ -177,55 +543,74 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     URL Slug
                     <span className="text-gray-400 font-normal ml-2">gotcommoncents.com/{metadata.slug || 'your-post-slug'}/</span>
+                    <SourceBadge source={metadata.metadataSources?.slug} />
                   </label>
                   <input
                     type="text"
                     value={metadata.slug}
-                    onChange={(e) => setMetadata({ ...metadata, slug: e.target.value })}
+                    onChange={(e) => updateMetadata({ slug: e.target.value })}
                     className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
                   />
                 </div>
 
                 {/* Excerpt */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Excerpt</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Excerpt
+                    <SourceBadge source={metadata.metadataSources?.excerpt} />
+                  </label>
                   <textarea
                     value={metadata.excerpt}
-                    onChange={(e) => setMetadata({ ...metadata, excerpt: e.target.value })}
+                    onChange={(e) => updateMetadata({ excerpt: e.target.value })}
                     rows={3}
                     placeholder="A short summary for previews and social sharing..."
                     className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
                   />
                 </div>
 
-                {/* Category & Author Row */}
+                {/* Target sites, when more than one is configured */}
+                {wpData && wpData.sites.length > 1 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Publish to</label>
+                    <div className="flex flex-wrap gap-4">
+                      {wpData.sites.map((site) => (
+                        <label key={site.name} className="inline-flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={targetSites.includes(site.name)}
+                            onChange={() => toggleTargetSite(site.name)}
+                            className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500 mr-2"
+                          />
+                          {site.label}
+                          {document.wpPosts?.[site.name] && (
+                            <span className="ml-1 text-xs text-gray-400">#{document.wpPosts[site.name].postId}</span>
+                          )}
+                        </label>
+                      ))}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Categories and authors below are from the first selected site
+                    </p>
+                  </div>
+                )}
+
+                {/* Categories & Author Row */}
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">Category *</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Categories *
+                      <SourceBadge source={metadata.metadataSources?.categories} />
+                    </label>
                     {loadingWpData ? (
                       <div className="flex items-center text-gray-400 text-sm py-2">
                         <Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading...
                       </div>
                     ) : (
-                      <select
-                        value={metadata.category}
-                        onChange={(e) => setMetadata({ ...metadata, category: e.target.value })}
-                        className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
-                      >
-                        {wpData?.categories.map((cat) => (
-                          <option key={cat.id} value={cat.name}>{cat.name}</option>
-                        ))}
-                        <option value="Personal Finance">Personal Finance</option>
-                        <option value="Investing">Investing</option>
-                        <option value="Budgeting">Budgeting</option>
-                        <option value="Credit">Credit</option>
-                        <option value="Retirement">Retirement</option>
-                        <option value="Taxes">Taxes</option>
-                        <option value="Insurance">Insurance</option>
-                        <option value="Real Estate">Real Estate</option>
-                        <option value="Career">Career</option>
-                        <option value="Lifestyle">Lifestyle</option>
-                      </select>
+                      <CategoryTreeSelect
+                        categories={wpData?.categories || []}
+                        value={metadata.categories}
+                        onChange={(categories) => updateMetadata({ categories })}
+                      />
                     )}
                   </div>
 
@@ -241,8 +626,7 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
                         onChange={(e) => {
                           const userId = parseInt(e.target.value);
                           const user = wpData?.users.find(u => u.id === userId);
-                          setMetadata({
-                            ...metadata,
+                          updateMetadata({
                             authorId: userId,
                             author: user?.name || metadata.author
                           });
@@ -259,13 +643,15 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
 
                 {/* Tags */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Tags
+                    <SourceBadge source={metadata.metadataSources?.tags} />
+                  </label>
                   <input
                     type="text"
                     value={metadata.tags.join(', ')}
                     onChange={(e) =>
-                      setMetadata({
-                        ...metadata,
+                      updateMetadata({
                         tags: e.target.value.split(',').map((t) => t.trim()).filter(Boolean),
                       })
                     }
@@ -282,7 +668,7 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
                     <input
                       type="date"
                       value={metadata.publishDate}
-                      onChange={(e) => setMetadata({ ...metadata, publishDate: e.target.value })}
+                      onChange={(e) => updateMetadata({ publishDate: e.target.value })}
                       className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
                     />
                   </div>
@@ -291,7 +677,7 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
                     <label className="block text-sm font-medium text-gray-700 mb-1">Post Format</label>
                     <select
                       value={metadata.format}
-                      onChange={(e) => setMetadata({ ...metadata, format: e.target.value as any })}
+                      onChange={(e) => updateMetadata({ format: e.target.value as any })}
                       className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
                     >
                       <option value="standard">Standard</option>
@@ -319,20 +705,42 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
                 {showAdvanced && (
                   <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Description (internal notes)</label>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Description (internal notes)
+                        <SourceBadge source={metadata.metadataSources?.description} />
+                      </label>
                       <textarea
                         value={metadata.description}
-                        onChange={(e) => setMetadata({ ...metadata, description: e.target.value })}
+                        onChange={(e) => updateMetadata({ description: e.target.value })}
                         rows={2}
                         className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
                       />
                     </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Content Format</label>
+                      <select
+                        value={metadata.contentFormat || ''}
+                        onChange={(e) =>
+                          updateMetadata({
+                            contentFormat: (e.target.value || undefined) as ContentFormat | undefined,
+                          })
+                        }
+                        className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                      >
+                        <option value="">Site default</option>
+                        <option value="classic">Classic HTML</option>
+                        <option value="blocks">Gutenberg blocks</option>
+                      </select>
+                      <p className="mt-1 text-xs text-gray-500">
+                        Gutenberg blocks open as native blocks in the WordPress block editor
+                      </p>
+                    </div>
                   </div>
                 )}
               </div>
             )}
 
-            {activeTab === 'seo' && (
+            {!resync && !wpConflict && activeTab === 'seo' && (
               <div className="space-y-5">
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
                   <h4 className="text-sm font-medium text-blue-800 mb-1">SEO Preview</h4>
@@ -349,11 +757,12 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
                     <span className={`ml-2 text-xs ${(metadata.seoTitle?.length || 0) > 60 ? 'text-red-500' : 'text-gray-400'}`}>
                       {metadata.seoTitle?.length || 0}/60 characters
                     </span>
+                    <SourceBadge source={metadata.metadataSources?.seoTitle} />
                   </label>
                   <input
                     type="text"
                     value={metadata.seoTitle || ''}
-                    onChange={(e) => setMetadata({ ...metadata, seoTitle: e.target.value })}
+                    onChange={(e) => updateMetadata({ seoTitle: e.target.value })}
                     placeholder={metadata.title}
                     className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
                   />
@@ -366,10 +775,11 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
                     <span className={`ml-2 text-xs ${(metadata.seoDescription?.length || 0) > 160 ? 'text-red-500' : 'text-gray-400'}`}>
                       {metadata.seoDescription?.length || 0}/160 characters
                     </span>
+                    <SourceBadge source={metadata.metadataSources?.seoDescription} />
                   </label>
                   <textarea
                     value={metadata.seoDescription || ''}
-                    onChange={(e) => setMetadata({ ...metadata, seoDescription: e.target.value })}
+                    onChange={(e) => updateMetadata({ seoDescription: e.target.value })}
                     rows={3}
                     placeholder={metadata.excerpt}
                     className="block w-full rounded-md border border-gray-300 px-3 py-2 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
@@ -393,7 +803,11 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
           {/* Footer */}
           <div className="bg-gray-50 px-6 py-4 flex justify-between items-center border-t">
             <div className="text-sm text-gray-500">
-              {document.wpPostId ? (
+              {linkedPosts.length > 1 ? (
+                <span className="text-purple-600">
+                  Linked to WordPress ({linkedPosts.map(([site, post]) => `${site}: ${post.postId}`).join(', ')})
+                </span>
+              ) : document.wpPostId ? (
                 <span className="text-purple-600">
                   Linked to WordPress (ID: {document.wpPostId})
                 </span>
@@ -408,22 +822,36 @@ export function DocumentModal({ document, onClose, onPublish }: DocumentModalPro
               >
                 Cancel
               </button>
-              <button
-                onClick={() => handlePublish('draft')}
-                disabled={isPublishing}
-                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
-              >
-                {isPublishing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-                {document.wpPostId ? 'Update Draft' : 'Save as Draft'}
-              </button>
-              <button
-                onClick={() => handlePublish('publish')}
-                disabled={isPublishing}
-                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 border border-transparent rounded-md hover:bg-primary-700 disabled:opacity-50"
-              >
-                {isPublishing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-                {document.wpPostId ? 'Update & Publish' : 'Publish Now'}
-              </button>
+              {canPromote && (
+                <button
+                  onClick={handlePromote}
+                  disabled={isPromoting || isPublishing}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-purple-700 bg-white border border-purple-300 rounded-md hover:bg-purple-50 disabled:opacity-50"
+                >
+                  {isPromoting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {document.wpPosts?.[wpData!.promotion!.production] ? 'Re-promote to Production' : 'Promote to Production'}
+                </button>
+              )}
+              {canSaveDraft && (
+                <button
+                  onClick={() => handlePublish('draft')}
+                  disabled={isPublishing || targetSites.length === 0}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {isPublishing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {document.wpPostId ? 'Update Draft' : 'Save as Draft'}
+                </button>
+              )}
+              {canPublish && (
+                <button
+                  onClick={() => handlePublish('publish')}
+                  disabled={isPublishing || targetSites.length === 0}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 border border-transparent rounded-md hover:bg-primary-700 disabled:opacity-50"
+                >
+                  {isPublishing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {document.wpPostId ? 'Update & Publish' : 'Publish Now'}
+                </button>
+              )}
             </div>
           </div>
         </div>
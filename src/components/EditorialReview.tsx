@@ -0,0 +1,59 @@
+'use client';
+
+import { Check, X } from 'lucide-react';
+import { EditorialChange } from '@/types';
+import { ContentDiff } from './ContentDiff';
+
+interface EditorialReviewProps {
+  changes: EditorialChange[];
+  accepted: Record<number, boolean>;
+  onDecide: (index: number, accept: boolean) => void;
+}
+
+export function EditorialReview({ changes, accepted, onDecide }: EditorialReviewProps) {
+  if (changes.length === 0) {
+    return (
+      <div className="rounded-md bg-green-50 border border-green-200 px-3 py-2 text-sm text-green-800">
+        No editorial changes suggested.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {changes.map((change) => {
+        const decision = accepted[change.index];
+        return (
+          <div
+            key={change.index}
+            className={`rounded-lg border p-3 ${
+              decision === true ? 'border-green-300 bg-green-50/50' : decision === false ? 'border-gray-200 bg-gray-50 opacity-60' : 'border-gray-200'
+            }`}
+          >
+            <ContentDiff before={change.original} after={change.revised} />
+            <div className="flex justify-end gap-2 mt-2">
+              <button
+                onClick={() => onDecide(change.index, false)}
+                className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded border ${
+                  decision === false ? 'bg-gray-700 text-white border-gray-700' : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                <X className="h-3 w-3 mr-1" />
+                Reject
+              </button>
+              <button
+                onClick={() => onDecide(change.index, true)}
+                className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded border ${
+                  decision === true ? 'bg-green-600 text-white border-green-600' : 'text-green-700 bg-white border-green-300 hover:bg-green-50'
+                }`}
+              >
+                <Check className="h-3 w-3 mr-1" />
+                Accept
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DocumentMetadata, DriveImage, MediaLibraryItem } from '@/types';
+import { Loader2, Search, Upload, FolderOpen, Image as ImageIcon } from 'lucide-react';
+
+type PickerTab = 'drive' | 'library' | 'upload';
+
+interface FeaturedImagePickerProps {
+  documentId: string;
+  photoLink?: string; // Its Drive folder (or the folder of the linked image) is listed
+  site: string; // Media library to browse and upload to
+  altText?: string;
+  onPicked: (fields: Partial<DocumentMetadata>) => void;
+  onCancel: () => void;
+}
+
+export function FeaturedImagePicker({ documentId, photoLink, site, altText, onPicked, onCancel }: FeaturedImagePickerProps) {
+  const [tab, setTab] = useState<PickerTab>('drive');
+  const [driveImages, setDriveImages] = useState<DriveImage[] | null>(null);
+  const [library, setLibrary] = useState<{ items: MediaLibraryItem[]; totalPages: number } | null>(null);
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (tab === 'drive' && !driveImages) loadDriveImages();
+    if (tab === 'library' && !library) loadLibrary(search, 1);
+  }, [tab]);
+
+  const loadDriveImages = async () => {
+    if (!photoLink) {
+      setError('The Photo Link column is empty, so there is no Drive folder to list');
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/featured-image?source=drive&link=${encodeURIComponent(photoLink)}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to list Drive images');
+      setDriveImages(data.images);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list Drive images');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadLibrary = async (term: string, pageNumber: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ source: 'wordpress', site, page: String(pageNumber) });
+      if (term) params.set('search', term);
+      const response = await fetch(`/api/featured-image?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load the media library');
+      setLibrary({ items: data.items, totalPages: data.totalPages });
+      setPage(pageNumber);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the media library');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Saves the pick to the sheet and the stored document
+  const pick = async (body: { driveFileId: string } | { site: string; mediaId: number } | { file: File }) => {
+    setSaving(true);
+    setError(null);
+    try {
+      let init: RequestInit;
+      if ('file' in body) {
+        const form = new FormData();
+        form.append('documentId', documentId);
+        form.append('site', site);
+        form.append('file', body.file);
+        if (altText) form.append('altText', altText);
+        init = { method: 'POST', body: form };
+      } else {
+        init = {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ documentId, ...body }),
+        };
+      }
+
+      const response = await fetch('/api/featured-image', init);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save the featured image');
+      onPicked(data.metadata);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the featured image');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const tabClass = (value: PickerTab) =>
+    `inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md ${
+      tab === value ? 'bg-primary-100 text-primary-700' : 'text-gray-600 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1">
+          <button onClick={() => setTab('drive')} className={tabClass('drive')}>
+            <FolderOpen className="h-4 w-4 mr-1.5" />
+            Drive folder
+          </button>
+          <button onClick={() => setTab('library')} className={tabClass('library')}>
+            <ImageIcon className="h-4 w-4 mr-1.5" />
+            Media library
+          </button>
+          <button onClick={() => setTab('upload')} className={tabClass('upload')}>
+            <Upload className="h-4 w-4 mr-1.5" />
+            Upload
+          </button>
+        </div>
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-700">{error}</div>
+      )}
+
+      {tab === 'library' && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            loadLibrary(search, 1);
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={`Search the ${site} media library`}
+            className="block w-full rounded-md border border-gray-300 px-3 py-1.5 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          />
+          <button
+            type="submit"
+            className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <Search className="h-4 w-4" />
+          </button>
+        </form>
+      )}
+
+      {loading || saving ? (
+        <div className="flex items-center justify-center py-8 text-sm text-gray-500">
+          <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+          {saving ? 'Saving to the Content Repo...' : 'Loading images...'}
+        </div>
+      ) : (
+        <>
+          {tab === 'drive' && driveImages && (
+            driveImages.length === 0 ? (
+              <p className="py-6 text-center text-sm text-gray-500">No images in this Drive folder</p>
+            ) : (
+              <div className="grid grid-cols-4 gap-2 max-h-72 overflow-y-auto">
+                {driveImages.map((image) => (
+                  <button
+                    key={image.id}
+                    onClick={() => pick({ driveFileId: image.id })}
+                    title={image.name}
+                    className="group text-left rounded-md border border-gray-200 overflow-hidden hover:border-primary-500"
+                  >
+                    <img
+                      src={`/api/featured-image/thumbnail?id=${encodeURIComponent(image.id)}`}
+                      alt={image.name}
+                      className="w-full h-20 object-cover bg-gray-100"
+                    />
+                    <p className="px-1.5 py-1 text-xs text-gray-600 truncate group-hover:text-primary-700">{image.name}</p>
+                  </button>
+                ))}
+              </div>
+            )
+          )}
+
+          {tab === 'library' && library && (
+            library.items.length === 0 ? (
+              <p className="py-6 text-center text-sm text-gray-500">No images found</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-4 gap-2 max-h-72 overflow-y-auto">
+                  {library.items.map((item) => (
+                    <button
+                      key={item.id}
+                      onClick={() => pick({ site, mediaId: item.id })}
+                      title={item.altText || item.title}
+                      className="group text-left rounded-md border border-gray-200 overflow-hidden hover:border-primary-500"
+                    >
+                      <img src={item.thumbnailUrl} alt={item.altText} className="w-full h-20 object-cover bg-gray-100" />
+                      <p
+                        className="px-1.5 py-1 text-xs text-gray-600 truncate group-hover:text-primary-700"
+                        dangerouslySetInnerHTML={{ __html: item.title || `#${item.id}` }}
+                      />
+                    </button>
+                  ))}
+                </div>
+                {library.totalPages > 1 && (
+                  <div className="flex items-center justify-between text-sm text-gray-600">
+                    <button
+                      onClick={() => loadLibrary(search, page - 1)}
+                      disabled={page <= 1}
+                      className="px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                    >
+                      Previous
+                    </button>
+                    <span>Page {page} of {library.totalPages}</span>
+                    <button
+                      onClick={() => loadLibrary(search, page + 1)}
+                      disabled={page >= library.totalPages}
+                      className="px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                    >
+                      Next
+                    </button>
+                  </div>
+                )}
+              </>
+            )
+          )}
+
+          {tab === 'upload' && (
+            <div className="space-y-3">
+              <input
+                type="file"
+                accept="image/*"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="block w-full text-sm text-gray-600 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+              />
+              <p className="text-xs text-gray-500">
+                The image is resized and converted like Drive images, then added to the {site} media library.
+              </p>
+              <div className="flex justify-end">
+                <button
+                  onClick={() => file && pick({ file })}
+                  disabled={!file}
+                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload and Use
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,9 +3,11 @@
 import { useSession, signOut } from 'next-auth/react';
 import { LogOut, FileText, Settings } from 'lucide-react';
 import Link from 'next/link';
+import { getSessionRole, hasPermission } from '@/lib/roles';
 
 export function Header() {
   const { data: session } = useSession();
+  const role = getSessionRole(session);
 
   return (
     <header className="bg-white border-b border-gray-200">
@@ -24,17 +26,28 @@ export function Header() {
                 Documents
               </Link>
               <Link
-                href="/settings"
+                href="/history"
                 className="text-gray-600 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
               >
-                Settings
+                History
               </Link>
+              {hasPermission(role, 'manageSettings') && (
+                <Link
+                  href="/settings"
+                  className="text-gray-600 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Settings
+                </Link>
+              )}
             </nav>
           </div>
           <div className="flex items-center space-x-4">
             {session?.user && (
               <>
-                <span className="text-sm text-gray-600">{session.user.email}</span>
+                <span className="text-sm text-gray-600">
+                  {session.user.email}
+                  {role && <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600 capitalize">{role}</span>}
+                </span>
                 <button
                   onClick={() => signOut()}
                   className="flex items-center space-x-1 text-gray-600 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
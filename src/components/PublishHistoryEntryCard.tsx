@@ -0,0 +1,122 @@
+'use client';
+
+import { PublishHistoryEntry, PublishRun } from '@/types';
+import { AlertCircle, CheckCircle, ExternalLink } from 'lucide-react';
+
+interface PublishHistoryEntryCardProps {
+  entry: PublishHistoryEntry;
+  run?: PublishRun; // Shown when listing entries across runs
+  onFilter?: (filter: { row?: number; wpPostId?: number }) => void;
+}
+
+const SOURCE_LABELS: Record<PublishHistoryEntry['source'], string> = {
+  manual: 'Manual publish',
+  'auto-publish': 'Auto-publish',
+  promotion: 'Promotion',
+};
+
+export function formatDuration(ms?: number): string {
+  if (ms === undefined) return '—';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+export function describeTrigger(run: PublishRun): string {
+  if (run.trigger === 'session') return run.triggeredBy || 'Signed-in user';
+  return run.trigger === 'cron' ? 'Cron' : 'API key';
+}
+
+export function PublishHistoryEntryCard({ entry, run, onFilter }: PublishHistoryEntryCardProps) {
+  return (
+    <div className={`rounded-lg border p-4 ${entry.success ? 'border-gray-200' : 'border-red-200 bg-red-50/40'}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-xs text-gray-500">
+            {new Date(entry.createdAt).toLocaleString()} · {SOURCE_LABELS[entry.source]}
+            {run && ` · run #${run.id} by ${describeTrigger(run)}`}
+            {entry.jobId && ` · job #${entry.jobId}`}
+          </p>
+          <h3 className="text-sm font-medium text-gray-900 truncate">{entry.title || entry.documentId}</h3>
+        </div>
+        {entry.success ? (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 flex-shrink-0">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            {entry.action === 'update' ? 'Updated' : 'Created'}
+          </span>
+        ) : (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 flex-shrink-0">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            {entry.action === 'update' ? 'Update failed' : 'Create failed'}
+          </span>
+        )}
+      </div>
+
+      <dl className="mt-3 grid grid-cols-[8rem_1fr] gap-x-3 gap-y-1 text-sm">
+        <dt className="text-gray-500">Sheet row</dt>
+        <dd className="text-gray-900">
+          {entry.sheetRowIndex ? (
+            <button
+              onClick={() => onFilter?.({ row: entry.sheetRowIndex })}
+              className="text-primary-600 hover:text-primary-700"
+              title="Show every action on this row"
+            >
+              Row {entry.sheetRowIndex}
+            </button>
+          ) : '—'}
+        </dd>
+        {entry.site && (
+          <>
+            <dt className="text-gray-500">Site</dt>
+            <dd className="text-gray-900">{entry.site}</dd>
+          </>
+        )}
+        <dt className="text-gray-500">WordPress post</dt>
+        <dd className="text-gray-900">
+          {entry.wpPostId ? (
+            <span className="inline-flex items-center gap-2">
+              <button
+                onClick={() => onFilter?.({ wpPostId: entry.wpPostId })}
+                className="text-primary-600 hover:text-primary-700"
+                title="Show every action on this post"
+              >
+                #{entry.wpPostId}
+              </button>
+              {entry.wpStatus && <span className="text-gray-500">({entry.wpStatus})</span>}
+              {entry.wpPostUrl && (
+                <a href={entry.wpPostUrl} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-gray-600">
+                  <ExternalLink className="h-3.5 w-3.5" />
+                </a>
+              )}
+            </span>
+          ) : '—'}
+        </dd>
+        <dt className="text-gray-500">Duration</dt>
+        <dd className="text-gray-900">{formatDuration(entry.durationMs)}</dd>
+      </dl>
+
+      {entry.error && (
+        <p className="mt-3 text-sm text-red-700 break-words">{entry.error}</p>
+      )}
+
+      {entry.metadataChanges && (
+        <div className="mt-3">
+          <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Metadata sent</h4>
+          {entry.metadataChanges.length === 0 ? (
+            <p className="text-sm text-gray-400">Unchanged since the last successful publish</p>
+          ) : (
+            <table className="w-full text-xs">
+              <tbody>
+                {entry.metadataChanges.map((change) => (
+                  <tr key={change.field} className="border-t border-gray-100 align-top">
+                    <td className="py-1 pr-3 text-gray-500 whitespace-nowrap">{change.field}</td>
+                    <td className="py-1 pr-3 text-red-700 line-through break-words">{change.before}</td>
+                    <td className="py-1 text-green-700 break-words">{change.after ?? <span className="text-gray-400">removed</span>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
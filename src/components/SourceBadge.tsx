@@ -0,0 +1,45 @@
+'use client';
+
+import { MetadataSource } from '@/types';
+
+const BADGES: Record<MetadataSource, { label: string; title: string; className: string }> = {
+  sheet: {
+    label: 'Sheet',
+    title: 'From the Content Repo sheet',
+    className: 'bg-green-100 text-green-800',
+  },
+  document: {
+    label: 'Document',
+    title: 'Taken from the document itself',
+    className: 'bg-gray-100 text-gray-700',
+  },
+  ai: {
+    label: 'AI · unreviewed',
+    title: 'Generated by AI - no one has reviewed this value yet',
+    className: 'bg-amber-100 text-amber-800',
+  },
+  manual: {
+    label: 'Edited',
+    title: 'Edited in the admin',
+    className: 'bg-blue-100 text-blue-800',
+  },
+};
+
+interface SourceBadgeProps {
+  source?: MetadataSource;
+}
+
+export function SourceBadge({ source }: SourceBadgeProps) {
+  if (!source) return null;
+
+  const badge = BADGES[source];
+
+  return (
+    <span
+      title={badge.title}
+      className={`ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-xs font-normal ${badge.className}`}
+    >
+      {badge.label}
+    </span>
+  );
+}
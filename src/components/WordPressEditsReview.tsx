@@ -0,0 +1,76 @@
+'use client';
+
+import { Loader2 } from 'lucide-react';
+import { WordPressEdits, WordPressEditsResolution } from '@/types';
+import { ContentDiff } from './ContentDiff';
+
+interface WordPressEditsReviewProps {
+  edits: WordPressEdits[];
+  content: string; // The document content about to be published
+  busy: boolean;
+  onResolve: (resolution: WordPressEditsResolution) => void;
+  onAbort: () => void;
+}
+
+// Three-way view: both sides are diffed against the content last published from here
+export function WordPressEditsReview({ edits, content, busy, onResolve, onAbort }: WordPressEditsReviewProps) {
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md bg-amber-50 border border-amber-200 px-3 py-2 text-sm text-amber-800">
+        {edits.length === 1 ? 'This post was' : 'These posts were'} edited in WordPress since {edits.length === 1 ? 'it was' : 'they were'} last
+        published from here. Publishing the Google Doc would overwrite those edits.
+      </div>
+
+      {edits.map((edit) => (
+        <div key={edit.site} className="space-y-3">
+          {edits.length > 1 && (
+            <h4 className="text-sm font-medium text-gray-900">
+              {edit.site} <span className="text-gray-400 font-normal">#{edit.postId}</span>
+            </h4>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs font-medium text-gray-500 uppercase mb-1">Edited in WordPress</p>
+              <div className="rounded-lg border border-gray-200 p-3">
+                <ContentDiff before={edit.published} after={edit.live} />
+              </div>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-gray-500 uppercase mb-1">Changed in the Google Doc</p>
+              <div className="rounded-lg border border-gray-200 p-3">
+                <ContentDiff before={edit.published} after={content} />
+              </div>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onAbort}
+          disabled={busy}
+          className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          Abort
+        </button>
+        <button
+          onClick={() => onResolve('keep')}
+          disabled={busy}
+          title="Update everything except the post content"
+          className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-primary-700 bg-white border border-primary-300 rounded-md hover:bg-primary-50 disabled:opacity-50"
+        >
+          {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Keep WordPress Edits
+        </button>
+        <button
+          onClick={() => onResolve('overwrite')}
+          disabled={busy}
+          className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+        >
+          {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Overwrite
+        </button>
+      </div>
+    </div>
+  );
+}
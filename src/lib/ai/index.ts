@@ -0,0 +1,234 @@
+import { z } from 'zod';
+import { DocumentMetadata } from '@/types';
+import { AIProvider, CompletionRequest } from './types';
+import { createAnthropicProvider } from './providers/anthropic';
+import { createOpenAIProvider } from './providers/openai';
+import { createStubProvider } from './providers/stub';
+
+export type { AIProvider } from './types';
+
+export const CATEGORIES = [
+  'Personal Finance',
+  'Investing',
+  'Budgeting',
+  'Credit',
+  'Retirement',
+  'Taxes',
+  'Insurance',
+  'Real Estate',
+  'Career',
+  'Lifestyle',
+  'General',
+] as const;
+
+const DEFAULT_MODELS: Record<string, string> = {
+  anthropic: 'claude-sonnet-4-5',
+  openai: 'gpt-4o',
+};
+
+const metadataResponseSchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string().default(''),
+  excerpt: z.string().default(''),
+  categories: z.array(z.enum(CATEGORIES)).min(1).max(3),
+  tags: z.array(z.string().trim().min(1)).max(10).default([]),
+  author: z.string().optional(),
+  seoTitle: z.string().default(''),
+  seoDescription: z.string().default(''),
+});
+
+let provider: AIProvider | null = null;
+
+/**
+ * Returns the configured AI provider. AI_PROVIDER selects anthropic, openai
+ * or stub; without it the provider is inferred from whichever API key is set.
+ * AI_MODEL overrides the provider's default model.
+ */
+export function getAIProvider(): AIProvider {
+  if (provider) return provider;
+
+  const name = (
+    process.env.AI_PROVIDER ||
+    (process.env.ANTHROPIC_API_KEY ? 'anthropic' : process.env.OPENAI_API_KEY ? 'openai' : '')
+  ).toLowerCase();
+  const model = process.env.AI_MODEL || DEFAULT_MODELS[name];
+
+  switch (name) {
+    case 'anthropic':
+      provider = createAnthropicProvider(model);
+      break;
+    case 'openai':
+      provider = createOpenAIProvider(model);
+      break;
+    case 'stub':
+      provider = createStubProvider();
+      break;
+    case '':
+      throw new Error('No AI provider configured. Set AI_PROVIDER and ANTHROPIC_API_KEY or OPENAI_API_KEY.');
+    default:
+      throw new Error(`Unsupported AI_PROVIDER: ${name}`);
+  }
+
+  return provider;
+}
+
+function getMaxRetries(): number {
+  const retries = parseInt(process.env.AI_MAX_RETRIES || '', 10);
+  return isNaN(retries) ? 2 : Math.max(0, retries);
+}
+
+function generateSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .trim();
+}
+
+type ParseResult<T> = { success: true; data: T } | { success: false; error: string };
+
+function parseResponse<S extends z.ZodTypeAny>(text: string, schema: S): ParseResult<z.infer<S>> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.trim());
+  } catch (error) {
+    return { success: false, error: `malformed JSON (${error instanceof Error ? error.message : 'parse error'})` };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error.issues.map((issue) => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; '),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * Requests a JSON response and validates it against the schema. Malformed or
+ * invalid responses are retried with the validation error fed back to the model.
+ */
+async function completeJson<S extends z.ZodTypeAny>(
+  schema: S,
+  request: Omit<CompletionRequest, 'json'>
+): Promise<z.infer<S>> {
+  const ai = getAIProvider();
+  const maxAttempts = getMaxRetries() + 1;
+  let prompt = request.prompt;
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const text = await ai.complete({ ...request, prompt, json: true });
+    const result = parseResponse(text, schema);
+
+    if (result.success) {
+      return result.data;
+    }
+
+    lastError = result.error;
+    console.warn(`[AI] Invalid ${request.task} response from ${ai.name} (attempt ${attempt}/${maxAttempts}): ${lastError}`);
+    prompt = `${request.prompt}
+
+Your previous response was rejected: ${lastError}
+Respond again with ONLY a valid JSON object containing the requested fields.`;
+  }
+
+  throw new Error(`AI returned an invalid ${request.task} response after ${maxAttempts} attempts: ${lastError}`);
+}
+
+export async function extractMetadata(
+  content: string,
+  fileName: string
+): Promise<DocumentMetadata> {
+  const today = new Date().toISOString().split('T')[0];
+
+  const prompt = `Analyze the following blog article content and extract metadata. The file name is "${fileName}".
+
+Return a JSON object with these fields:
+- title: The best title for this article (clear, engaging, SEO-friendly)
+- description: A 1-2 sentence description of the article
+- excerpt: A compelling excerpt (2-3 sentences) for previews/social sharing
+- categories: An array of 1-3 categories this article belongs to, the main one first. Choose from: ${CATEGORIES.map((c) => `"${c}"`).join(', ')}
+- tags: An array of 3-7 relevant tags (lowercase, can be multi-word phrases like "emergency fund", "credit score")
+- author: Suggest an author name or use "CommonCents Team"
+- seoTitle: An SEO-optimized title (50-60 characters max)
+- seoDescription: An SEO-optimized meta description (150-160 characters max)
+
+Article content:
+${content.slice(0, 15000)}
+
+Respond with ONLY the JSON object, no additional text or markdown formatting.`;
+
+  const parsed = await completeJson(metadataResponseSchema, {
+    task: 'metadata',
+    prompt,
+    content,
+    maxTokens: 1024,
+  });
+
+  // Build complete metadata with defaults
+  const metadata: DocumentMetadata = {
+    title: parsed.title,
+    slug: generateSlug(parsed.title),
+    description: parsed.description,
+    excerpt: parsed.excerpt || parsed.description,
+    categories: Array.from(new Set(parsed.categories)),
+    tags: parsed.tags,
+    author: parsed.author || 'CommonCents Team',
+    publishDate: today,
+    seoTitle: parsed.seoTitle || parsed.title.slice(0, 60),
+    seoDescription: parsed.seoDescription || parsed.description.slice(0, 160),
+    format: 'standard',
+  };
+
+  return metadata;
+}
+
+export interface EditorialBlock {
+  id: number;
+  html: string;
+}
+
+const editorialResponseSchema = z.object({
+  blocks: z.array(z.object({
+    id: z.number().int(),
+    html: z.string(),
+  })),
+});
+
+/**
+ * Grammar and clarity review of individual content blocks. Returns the
+ * revised blocks by id; blocks the model leaves out are unchanged.
+ */
+export async function reviewBlocks(blocks: EditorialBlock[]): Promise<EditorialBlock[]> {
+  if (blocks.length === 0) return [];
+
+  const input = JSON.stringify({ blocks });
+  const prompt = `You are copy-editing a blog article. Each block below is one HTML paragraph, list or quote.
+Fix grammar, spelling and punctuation and improve clarity where a sentence is hard to follow. Keep the author's voice, meaning and length; do not add new information.
+
+Rules:
+- Keep every <a href="..."> link with its exact href; you may only adjust the words around it
+- Keep the block's outer tag and, for lists, the same number of <li> items
+- Only use inline tags that already appear (<strong>, <em>, <a>, <code>, <br>)
+- Return only blocks you changed, with their original id
+
+Return a JSON object of the form {"blocks": [{"id": 0, "html": "<p>...</p>"}]}.
+
+Blocks:
+${input}
+
+Respond with ONLY the JSON object, no additional text or markdown formatting.`;
+
+  const parsed = await completeJson(editorialResponseSchema, {
+    task: 'editorial',
+    prompt,
+    content: input,
+    maxTokens: 8192,
+  });
+
+  return parsed.blocks;
+}
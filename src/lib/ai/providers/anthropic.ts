@@ -0,0 +1,35 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AIProvider } from '../types';
+
+export function createAnthropicProvider(model: string): AIProvider {
+  const client = new Anthropic({
+    apiKey: process.env.ANTHROPIC_API_KEY,
+  });
+
+  return {
+    name: 'anthropic',
+    model,
+
+    async complete({ prompt, maxTokens, json }) {
+      const response = await client.messages.create({
+        model,
+        max_tokens: maxTokens,
+        messages: [
+          { role: 'user', content: prompt },
+          // Prefilling the reply with "{" keeps Claude from wrapping JSON in prose or fences
+          ...(json ? [{ role: 'assistant' as const, content: '{' }] : []),
+        ],
+      });
+
+      const text = response.content
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join('');
+
+      if (!text) {
+        throw new Error('No response from Anthropic');
+      }
+
+      return json ? `{${text}` : text;
+    },
+  };
+}
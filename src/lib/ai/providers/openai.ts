@@ -0,0 +1,34 @@
+import OpenAI from 'openai';
+import { AIProvider } from '../types';
+
+export function createOpenAIProvider(model: string): AIProvider {
+  const client = new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+  });
+
+  return {
+    name: 'openai',
+    model,
+
+    async complete({ prompt, maxTokens, json }) {
+      const response = await client.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        max_tokens: maxTokens,
+        ...(json ? { response_format: { type: 'json_object' as const } } : {}),
+      });
+
+      const textContent = response.choices[0]?.message?.content;
+      if (!textContent) {
+        throw new Error('No response from OpenAI');
+      }
+
+      return textContent;
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import { AIProvider } from '../types';
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'their', 'there', 'these', 'those', 'which', 'while',
+  'would', 'could', 'should', 'where', 'other', 'because', 'being', 'every', 'your',
+  'yours', 'into', 'than', 'then', 'them', 'they', 'this', 'that', 'with', 'from',
+  'have', 'will', 'what', 'when', 'more', 'most', 'some', 'such', 'only', 'also',
+]);
+
+function toPlainText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function firstSentences(text: string, count: number): string {
+  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
+  return sentences.slice(0, count).join(' ').trim();
+}
+
+function topWords(text: string, count: number): string[] {
+  const frequency = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z]{5,}/g) || []) {
+    if (!STOP_WORDS.has(word)) {
+      frequency.set(word, (frequency.get(word) || 0) + 1);
+    }
+  }
+
+  return Array.from(frequency.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count)
+    .map(([word]) => word);
+}
+
+/**
+ * Offline provider with deterministic output derived from the content.
+ * Lets the app run and be tested without network access or API keys
+ * (AI_PROVIDER=stub).
+ */
+export function createStubProvider(): AIProvider {
+  return {
+    name: 'stub',
+    model: 'stub',
+
+    async complete({ task, content }) {
+      // Editorial input is the JSON block list; echoing it back means "no changes"
+      if (task === 'editorial') {
+        return content;
+      }
+
+      const heading = content.match(/<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>/i);
+      const text = toPlainText(content);
+      const title = heading ? toPlainText(heading[1]) : firstSentences(text, 1).slice(0, 80);
+      const body = toPlainText(content.replace(/<h[1-6][^>]*>[\s\S]*?<\/h[1-6]>/gi, ' '));
+      const description = firstSentences(body || text, 2);
+
+      return JSON.stringify({
+        title: title || 'Untitled',
+        description,
+        excerpt: description,
+        categories: ['General'],
+        tags: topWords(text, 5),
+        author: 'CommonCents Team',
+        seoTitle: (title || 'Untitled').slice(0, 60),
+        seoDescription: description.slice(0, 160),
+      });
+    },
+  };
+}
@@ -0,0 +1,21 @@
+export type AITask = 'metadata' | 'editorial';
+
+export interface CompletionRequest {
+  task: AITask;
+  prompt: string;
+  // The raw article content the prompt was built from (used by the stub provider)
+  content: string;
+  maxTokens: number;
+  // Ask the provider for a bare JSON object
+  json?: boolean;
+}
+
+/**
+ * A text-completion backend. Providers only turn a prompt into text;
+ * prompt building, parsing and validation live in the ai module.
+ */
+export interface AIProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<string>;
+}
@@ -1,6 +1,9 @@
 import { NextAuthOptions } from 'next-auth';
-import GoogleProvider from 'next-auth/providers/google';
+import GoogleProvider, { GoogleProfile } from 'next-auth/providers/google';
 import CredentialsProvider from 'next-auth/providers/credentials';
+import { getRoleForEmail } from './roles';
+import { matchesPlainPassword, verifyPassword } from './password';
+import { checkSignIn } from './sign-in-policy';
 
 /**
  * Gets a fresh Google access token using a stored refresh token.
@@ -62,21 +65,52 @@ export const authOptions: NextAuthOptions = {
       async authorize(credentials) {
         if (!credentials) return null;
 
-        if (
-          credentials.email === process.env.ADMIN_EMAIL &&
-          credentials.password === process.env.ADMIN_PASSWORD
-        ) {
+        const adminEmail = process.env.ADMIN_EMAIL;
+        const passwordHash = process.env.ADMIN_PASSWORD_HASH;
+        // Plaintext ADMIN_PASSWORD is still accepted for this release when no hash is set
+        const legacyPassword = passwordHash ? undefined : process.env.ADMIN_PASSWORD;
+        if (!adminEmail || (!passwordHash && !legacyPassword)) return null;
+
+        if (legacyPassword) {
+          console.warn('[Auth] ADMIN_PASSWORD is deprecated and will stop working in the next release; set ADMIN_PASSWORD_HASH (npm run hash-password)');
+        }
+
+        const passwordMatches = passwordHash
+          ? await verifyPassword(credentials.password, passwordHash)
+          : matchesPlainPassword(credentials.password, legacyPassword!);
+
+        if (credentials.email.trim().toLowerCase() === adminEmail.trim().toLowerCase() && passwordMatches) {
           return {
             id: '1',
-            email: credentials.email,
+            email: adminEmail,
             name: 'Admin',
           };
         }
+
+        console.warn(`[Auth] Failed admin login for ${credentials.email}`);
         return null;
       },
     }),
   ],
   callbacks: {
+    // Runs for every provider; a denied account is sent to the error page with ?error=AccessDenied
+    async signIn({ user, account, profile }) {
+      const provider = account?.provider || 'credentials';
+      const googleProfile = provider === 'google' ? (profile as GoogleProfile | undefined) : undefined;
+
+      const decision = checkSignIn({
+        email: user.email,
+        provider,
+        hostedDomain: googleProfile?.hd,
+        emailVerified: googleProfile?.email_verified,
+      });
+
+      if (!decision.allowed) {
+        console.warn(`[Auth] Denied sign-in for ${user.email || 'unknown account'} via ${provider}: ${decision.reason}`);
+        return false;
+      }
+      return true;
+    },
     async jwt({ token, account }) {
       // On initial sign-in, capture all token data
       if (account) {
@@ -126,11 +160,14 @@ export const authOptions: NextAuthOptions = {
     },
     async session({ session, token }) {
       (session as any).accessToken = token.accessToken;
+      // Resolved on every request so allow-list changes apply without signing out
+      (session as any).role = getRoleForEmail(session.user?.email || token.email);
       return session;
     },
   },
   pages: {
     signIn: '/login',
+    error: '/auth/error',
   },
   session: {
     strategy: 'jwt',
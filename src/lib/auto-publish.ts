@@ -0,0 +1,799 @@
+import { createHash, randomUUID } from 'crypto';
+import { updateRowAfterPublish, updateRowAfterError, sheetRowToMetadata, getSheetMetadataSources, parseSites, SheetRow } from './google-sheets';
+import { extractDriveFileId } from './google-drive';
+import { formatForWordPress } from './document-processor';
+import { DriveDocument, fetchDriveDocument, findWordPressEdits, isStoredCopyOf } from './document-sync';
+import { downloadFeaturedImage, resolveLibraryImage, uploadFeaturedImage, DownloadedImage } from './featured-image';
+import { uploadInlineImages } from './inline-images';
+import { DEFAULT_SITE, ExistingPost, getSitePosts, getWordPressClient, parseMediaLink, resolveTargetSites, WordPressClient } from './wordpress';
+import { getStore } from './store';
+import { applyDocumentMetadata, fillMissingMetadata, getMissingFields } from './metadata';
+import { decodeTermName, findCategoryByPath } from './categories';
+import { enqueueJob, isTransientError, JobHandler } from './job-queue';
+import { describePost, recordPublish } from './publish-history';
+import {
+  AutoPublishPreview,
+  Document,
+  DocumentMetadata,
+  Job,
+  PublishHistoryEntry,
+  SitePublishResult,
+  WordPressPost,
+} from '@/types';
+
+// Status values that trigger auto-publish
+const READY_STATUSES = ['ready to post', 'ready', 'readytopost', 'publish'];
+
+// Post meta holding the idempotency key; register it with show_in_rest in WordPress
+export const IDEMPOTENCY_META_KEY = 'blog_admin_idempotency_key';
+
+const RUN_LOCK = 'auto-publish';
+const RUN_LOCK_TTL_MS = (parseInt(process.env.AUTO_PUBLISH_LOCK_TTL_MINUTES || '', 10) || 15) * 60 * 1000;
+
+// Sheet columns worth filling in before a row goes out, with their labels
+const RECOMMENDED_COLUMNS: Array<[keyof SheetRow, string]> = [
+  ['title', 'Title'],
+  ['slug', 'Slug'],
+  ['category', 'Category'],
+  ['metaTitle', 'Meta Title'],
+  ['metaDescription', 'Meta Description'],
+  ['primaryKeyword', 'Primary Keyword'],
+  ['photoLink', 'Photo Link'],
+  ['postDate', 'Post Date'],
+];
+
+export interface RowPublishResult {
+  row: number;
+  title: string;
+  success: boolean;
+  postId?: number;
+  postUrl?: string;
+  error?: string;
+  sites?: SitePublishResult[]; // One per target site; postId/postUrl above are the first site's
+}
+
+/**
+ * Takes the auto-publish run lock. Returns an owner token to renew and
+ * release it with, or null when another run holds an unexpired lock.
+ */
+export async function acquireRunLock(): Promise<string | null> {
+  const owner = randomUUID();
+  return (await getStore().acquireLock(RUN_LOCK, owner, RUN_LOCK_TTL_MS)) ? owner : null;
+}
+
+export async function releaseRunLock(owner: string): Promise<void> {
+  await getStore().releaseLock(RUN_LOCK, owner);
+}
+
+// Per-row lease held by the worker while it publishes a row
+function rowLockName(row: Pick<SheetRow, 'rowIndex' | 'blogLink'>): string {
+  return `${RUN_LOCK}:row:${row.blogLink || row.rowIndex}`;
+}
+
+/**
+ * Whether a sheet row's status asks for it to be published (case-insensitive)
+ */
+export function isReadyRow(row: SheetRow): boolean {
+  const status = row.status.toLowerCase().replace(/\s+/g, '');
+  return READY_STATUSES.some((s) => status === s.replace(/\s+/g, ''));
+}
+
+function generateSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .trim();
+}
+
+/**
+ * Parses a date string from the sheet (various formats) into ISO format for WordPress.
+ * Returns undefined if the date can't be parsed.
+ */
+function parsePostDate(dateStr: string): string | undefined {
+  if (!dateStr) return undefined;
+
+  const trimmed = dateStr.trim();
+
+  // Try parsing with Date constructor (handles M/D/YYYY, YYYY-MM-DD, etc.)
+  const parsed = new Date(trimmed);
+  if (!isNaN(parsed.getTime())) {
+    // Format as YYYY-MM-DDTHH:MM:SS for WordPress
+    const year = parsed.getFullYear();
+    const month = String(parsed.getMonth() + 1).padStart(2, '0');
+    const day = String(parsed.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}T12:00:00`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Stable key for publishing a row's document to a site: the same row, Drive
+ * file and site always map to the same key, whichever run publishes it.
+ * The default site keeps the key it had before multi-site publishing.
+ */
+function getIdempotencyKey(documentId: string, driveFileId: string, site: string): string {
+  const source = site === DEFAULT_SITE ? `${documentId}|${driveFileId}` : `${documentId}|${driveFileId}|${site}`;
+  return createHash('sha256').update(source).digest('hex').slice(0, 32);
+}
+
+/**
+ * Looks for a post using the slug. Only a post carrying this row's idempotency
+ * key can be taken over. Any other one is a conflict: created for another row,
+ * or without a key (written by hand, or the meta isn't registered in WordPress).
+ */
+async function findPostForSlug(
+  client: WordPressClient,
+  slug: string,
+  idempotencyKey: string,
+  excludeId: number | null
+): Promise<{ adopt?: ExistingPost; conflict?: ExistingPost }> {
+  const posts = (await client.findPostsBySlug(slug)).filter((post) => post.id !== excludeId);
+
+  const ours = posts.find((post) => post.meta?.[IDEMPOTENCY_META_KEY] === idempotencyKey);
+  if (ours) return { adopt: ours };
+
+  return posts[0] ? { conflict: posts[0] } : {};
+}
+
+function describeSlugConflict(slug: string, post: ExistingPost, site: string): string {
+  const owner = post.meta?.[IDEMPOTENCY_META_KEY]
+    ? 'which was published from another row'
+    : `which has no ${IDEMPOTENCY_META_KEY} meta (written in WordPress, or the meta isn't registered with show_in_rest)`;
+  return `Slug "${slug}" is already used by post ${post.id} on ${site}, ${owner}`;
+}
+
+/**
+ * Finds a post an earlier (possibly interrupted or overlapping) run already
+ * created for this row on the site: first via the recorded publish intent,
+ * then by slug and idempotency meta in WordPress. Throws on a slug conflict.
+ */
+async function recoverExistingPost(
+  client: WordPressClient,
+  row: SheetRow,
+  idempotencyKey: string,
+  slug: string
+): Promise<number | null> {
+  const intent = await getStore().getPublishIntent(idempotencyKey);
+  if (intent?.wpPostId) {
+    console.log(`[Auto-publish Row ${row.rowIndex}] Recovered WP ID ${intent.wpPostId} on ${client.name} from publish intent`);
+    return intent.wpPostId;
+  }
+
+  const { adopt, conflict } = await findPostForSlug(client, slug, idempotencyKey, null);
+  if (conflict) {
+    throw new Error(describeSlugConflict(slug, conflict, client.name));
+  }
+  if (adopt) {
+    console.log(`[Auto-publish Row ${row.rowIndex}] Found existing post with slug "${slug}" on ${client.name}: WP ID ${adopt.id}`);
+    return adopt.id;
+  }
+
+  return null;
+}
+
+// Everything publishRow needs before it starts writing to WordPress
+interface PreparedRow {
+  documentId: string;
+  driveFileId: string;
+  mimeType: string; // Of the Drive file
+  revision?: string; // Drive revision of the fetched content
+  sites: string[]; // Target sites, first one mirrored in the sheet
+  content: string;
+  metadata: DocumentMetadata;
+  postDate?: string;
+  featuredImage?: DownloadedImage;
+  libraryImage?: { site: string; mediaId: number }; // Photo Link picked from a media library
+  storedDoc: Document | null;
+  warnings: string[];
+}
+
+/**
+ * The post the row already has on a site. The sheet's WordPress ID column
+ * belongs to the first target site; the stored document covers every site
+ * (and the first one too, in case the sheet write-back was lost).
+ */
+function getExistingPostId(row: SheetRow, prepared: PreparedRow, site: string): number | null {
+  if (site === prepared.sites[0] && row.wordpressId) {
+    return parseInt(row.wordpressId);
+  }
+  return getSitePosts(prepared.storedDoc)[site]?.postId || null;
+}
+
+/**
+ * Read-only part of the pipeline: resolves the target sites, fetches and
+ * cleans the document, builds metadata from the sheet (AI fills blanks) and
+ * downloads the featured image. With `dryRun` the AI isn't asked (blank
+ * fields are left as they are) and the image isn't saved to the asset cache.
+ * Throws when the row can't be published at all.
+ */
+async function prepareRow(
+  accessToken: string,
+  row: SheetRow,
+  options: { dryRun?: boolean } = {}
+): Promise<PreparedRow> {
+  const warnings: string[] = [];
+  const sites = resolveTargetSites(parseSites(row));
+
+  // 1. Get document content from Drive
+  const driveFileId = extractDriveFileId(row.blogLink);
+  if (!driveFileId) {
+    throw new Error('No valid Drive link in the Blog Link column');
+  }
+
+  let driveDoc: DriveDocument;
+  try {
+    // Content without its title heading, its frontmatter and the Drive revision it came from
+    driveDoc = await fetchDriveDocument(accessToken, driveFileId);
+  } catch (driveError) {
+    throw new Error(`Failed to fetch document: ${driveError}`);
+  }
+
+  const { content, mimeType, revision } = driveDoc;
+  if (!content) {
+    throw new Error('Document has no content');
+  }
+
+  // 2. Build metadata from sheet, then the document's frontmatter
+  const sheetMetadata = sheetRowToMetadata(row);
+  const postDate = parsePostDate(row.postDate) || parsePostDate(driveDoc.metadata.publishDate || '');
+  let metadata: DocumentMetadata = {
+    title: sheetMetadata.title || row.title || row.blogPost,
+    slug: sheetMetadata.slug || generateSlug(sheetMetadata.title || row.title || row.blogPost),
+    description: sheetMetadata.seoDescription || '',
+    excerpt: sheetMetadata.seoDescription || '',
+    categories: sheetMetadata.categories || ['General'],
+    tags: sheetMetadata.tags || [],
+    author: 'CommonCents Team',
+    publishDate: postDate || new Date().toISOString().split('T')[0],
+    seoTitle: sheetMetadata.seoTitle || sheetMetadata.title,
+    seoDescription: sheetMetadata.seoDescription || '',
+    photoLink: sheetMetadata.photoLink,
+    featuredImageAlt: sheetMetadata.featuredImageAlt,
+    featuredImageCaption: sheetMetadata.featuredImageCaption,
+    format: 'standard',
+    metadataSources: getSheetMetadataSources(row),
+  };
+  metadata = applyDocumentMetadata(metadata, driveDoc.metadata);
+
+  // Fill blank sheet fields (title, meta description, category, ...) with AI suggestions;
+  // a dry run doesn't pay for an AI call
+  if (!options.dryRun) {
+    try {
+      metadata = await fillMissingMetadata(metadata, content, row.blogPost || row.title);
+    } catch (aiError) {
+      console.warn(`[Auto-publish Row ${row.rowIndex}] AI metadata extraction failed:`, aiError);
+      warnings.push(`AI metadata extraction failed: ${aiError instanceof Error ? aiError.message : aiError}`);
+    }
+  }
+
+  if (row.postDate && !postDate) {
+    warnings.push(`Post date "${row.postDate}" could not be parsed; WordPress will use the current time`);
+  }
+
+  // 3. Download featured image, unless it was picked from a media library
+  let featuredImage: DownloadedImage | undefined;
+  const libraryImage = parseMediaLink(row.photoLink) || undefined;
+  if (row.photoLink && !libraryImage) {
+    try {
+      console.log(`[Auto-publish Row ${row.rowIndex}] Downloading featured image...`);
+      featuredImage = await downloadFeaturedImage(accessToken, row.photoLink, { dryRun: options.dryRun });
+    } catch (imageError) {
+      featuredImage = { success: false, error: imageError instanceof Error ? imageError.message : 'Download failed' };
+    }
+    if (featuredImage.asset) {
+      // The stored document points at the cached image, for the dashboard preview
+      metadata.featuredImageAssetId = featuredImage.asset.id;
+      metadata.featuredImageMimeType = featuredImage.asset.mimeType;
+      metadata.featuredImageName = featuredImage.asset.filename;
+    } else {
+      warnings.push(`Featured image unavailable: ${featuredImage.error}`);
+    }
+  }
+
+  const documentId = `sheet-${row.rowIndex}`;
+  const stored = await getStore().getDocument(documentId);
+  const storedDoc = isStoredCopyOf(stored, driveFileId) ? stored : null;
+  if (stored && !storedDoc) {
+    console.warn(`[Auto-publish Row ${row.rowIndex}] Stored ${documentId} is another article (rows moved); not reusing its posts`);
+  }
+
+  return { documentId, driveFileId, mimeType, revision, sites, content, metadata, postDate, featuredImage, libraryImage, storedDoc, warnings };
+}
+
+export const PUBLISH_ROW_JOB = 'publish-row';
+
+export interface PublishRowJobPayload {
+  rowIndex: number;
+  blogLink: string; // Identifies the row again if rows were inserted above it
+  title: string;
+}
+
+/**
+ * Queues one publish job per row. A row that already has a queued or running
+ * job is not queued twice.
+ */
+export async function enqueuePublishRow(row: SheetRow): Promise<Job<PublishRowJobPayload>> {
+  return enqueueJob<PublishRowJobPayload>(
+    PUBLISH_ROW_JOB,
+    { rowIndex: row.rowIndex, blogLink: row.blogLink, title: row.title || row.blogPost },
+    { dedupeKey: `${PUBLISH_ROW_JOB}:${row.blogLink || row.rowIndex}` }
+  );
+}
+
+/**
+ * Job handler for queued rows. `rows` is the sheet as read at the start of
+ * the worker run. Transient failures are retried by the queue; once a job
+ * fails for good the error is written back to the sheet (status "Error",
+ * last error, last attempt) so the content team can triage it.
+ * Every attempt is recorded in the publish history under the run returned
+ * by `getRunId`. A row is published by one worker at a time; a job whose row
+ * is busy is retried later.
+ */
+export function createPublishRowHandler(
+  accessToken: string,
+  rows: SheetRow[],
+  getRunId?: () => Promise<number>
+): JobHandler<PublishRowJobPayload> {
+  const findRow = (payload: PublishRowJobPayload) =>
+    rows.find((r) => r.rowIndex === payload.rowIndex && r.blogLink === payload.blogLink) ||
+    rows.find((r) => payload.blogLink && r.blogLink === payload.blogLink);
+
+  return {
+    async run(job) {
+      const row = findRow(job.payload);
+      if (!row) {
+        return { ok: false, error: `Sheet row for "${job.payload.title}" no longer exists`, retryable: false };
+      }
+
+      // Published by another run, or pulled back by the content team since it was queued
+      if (!isReadyRow(row)) {
+        console.log(`[Auto-publish Row ${row.rowIndex}] Skipped: status is now "${row.status}"`);
+        return { ok: true, result: { skipped: true, status: row.status } };
+      }
+
+      // The job lease can run out during a slow publish and the job be claimed
+      // again; the row lease keeps the second worker off the row until then
+      const lockOwner = randomUUID();
+      if (!(await getStore().acquireLock(rowLockName(row), lockOwner, RUN_LOCK_TTL_MS))) {
+        console.warn(`[Auto-publish Row ${row.rowIndex}] Skipped: another worker is publishing this row`);
+        return { ok: false, error: 'Another worker is publishing this row', retryable: true };
+      }
+
+      console.log(`[Auto-publish] Processing row ${row.rowIndex} (attempt ${job.attempts}/${job.maxAttempts}): ${row.title || row.blogPost}`);
+      let result: RowPublishResult;
+      try {
+        const runId = getRunId ? await getRunId() : undefined;
+        result = await publishRow(accessToken, row, { runId, jobId: job.id });
+      } finally {
+        await getStore().releaseLock(rowLockName(row), lockOwner);
+      }
+
+      if (result.success) {
+        return { ok: true, result };
+      }
+      return { ok: false, error: result.error || 'Unknown error', retryable: isTransientError(result.error || '') };
+    },
+
+    async onFailure(job, error) {
+      const row = findRow(job.payload);
+      if (!row) return;
+
+      try {
+        await updateRowAfterError(accessToken, row.rowIndex, error);
+      } catch (sheetError) {
+        console.error(`[Auto-publish Row ${row.rowIndex}] Failed to record error in sheet:`, sheetError);
+      }
+    },
+  };
+}
+
+type RowHistory = Pick<PublishHistoryEntry, 'documentId' | 'source' | 'sheetRowIndex' | 'driveFileId' | 'title' | 'runId' | 'jobId'>;
+
+interface SitePublishOutcome extends SitePublishResult {
+  content?: string; // With inline images pointing at the site's media library
+  sentContent?: string; // Post content as sent
+  publishedAt?: string;
+}
+
+async function publishRow(
+  accessToken: string,
+  row: SheetRow,
+  audit: { runId?: number; jobId?: number } = {}
+): Promise<RowPublishResult> {
+  const startedAt = Date.now();
+  const result: RowPublishResult = {
+    row: row.rowIndex,
+    title: row.title || row.blogPost,
+    success: false,
+  };
+  const history: RowHistory = {
+    ...audit,
+    documentId: `sheet-${row.rowIndex}`,
+    source: 'auto-publish',
+    sheetRowIndex: row.rowIndex,
+    driveFileId: extractDriveFileId(row.blogLink) || undefined,
+    title: result.title,
+  };
+
+  let prepared: PreparedRow;
+  try {
+    prepared = await prepareRow(accessToken, row);
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+
+    // Failed before reaching WordPress (Drive, sheet, unknown site, ...)
+    try {
+      await recordPublish({
+        ...history,
+        action: row.wordpressId ? 'update' : 'create',
+        success: false,
+        wpPostId: parseInt(row.wordpressId) || undefined,
+        error: result.error,
+        durationMs: Date.now() - startedAt,
+        createdAt: new Date().toISOString(),
+      });
+    } catch (historyError) {
+      console.error(`[Auto-publish Row ${row.rowIndex}] Failed to record publish history:`, historyError);
+    }
+    return result;
+  }
+
+  const { documentId, sites, metadata, postDate, storedDoc } = prepared;
+  if (postDate) {
+    console.log(`[Auto-publish Row ${row.rowIndex}] Using post date from sheet: ${postDate}`);
+  }
+
+  const published: SitePublishOutcome[] = [];
+  for (const site of sites) {
+    published.push(await publishRowToSite(getWordPressClient(site), row, prepared, { ...history, title: metadata.title }));
+  }
+  result.sites = published.map(({ content, sentContent, publishedAt, ...site }) => site);
+
+  const failed = published.filter((site) => !site.success);
+  if (failed.length > 0) {
+    result.error = failed.map((site) => (sites.length > 1 ? `${site.site}: ${site.error}` : site.error)).join('; ');
+  }
+
+  const succeeded = published.filter((site) => site.success);
+  if (succeeded.length === 0) {
+    return result;
+  }
+
+  try {
+    // Keep posts made on the sites that worked, so a retry updates them instead of creating new ones
+    const now = new Date().toISOString();
+    const wpPosts = { ...getSitePosts(storedDoc) };
+    for (const site of succeeded) {
+      wpPosts[site.site] = {
+        postId: site.postId!,
+        postUrl: site.postUrl,
+        status: 'publish',
+        publishedAt: site.publishedAt || now,
+        updatedAt: now,
+        revision: prepared.revision,
+        publishedContent: site.sentContent,
+      };
+    }
+    const primary = wpPosts[sites[0]];
+
+    await getStore().saveDocument({
+      ...storedDoc,
+      id: documentId,
+      name: storedDoc?.name || row.blogPost || row.title,
+      mimeType: prepared.mimeType,
+      createdTime: storedDoc?.createdTime || now,
+      modifiedTime: storedDoc?.modifiedTime || now,
+      status: 'published',
+      content: succeeded[0].content,
+      metadata,
+      processedAt: now,
+      targetSites: sites,
+      wpPosts,
+      wpPostId: primary?.postId,
+      wpPostUrl: primary?.postUrl,
+      wpStatus: primary?.status,
+      wpPublishedAt: primary?.publishedAt,
+      sheetRowIndex: row.rowIndex,
+      driveFileId: prepared.driveFileId,
+      contentRevision: prepared.revision,
+    });
+
+    if (failed.length > 0) {
+      return result;
+    }
+
+    // 7. Update sheet with success (the first site's post)
+    await updateRowAfterPublish(accessToken, row.rowIndex, 'Posted', primary.postId, {
+      postUrl: primary.postUrl,
+      publishedAt: primary.publishedAt,
+    });
+
+    result.success = true;
+    result.postId = primary.postId;
+    result.postUrl = primary.postUrl;
+
+    console.log(`[Auto-publish Row ${row.rowIndex}] Successfully published: ${metadata.title} (WP ID: ${sites.map((site) => `${site} ${wpPosts[site].postId}`).join(', ')})`);
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  return result;
+}
+
+/**
+ * Publishes a prepared row to one site: featured image, inline images,
+ * terms, then the post itself. Every attempt is recorded in the publish
+ * history under the site's name; errors are returned, not thrown.
+ */
+async function publishRowToSite(
+  client: WordPressClient,
+  row: SheetRow,
+  prepared: PreparedRow,
+  history: RowHistory
+): Promise<SitePublishOutcome> {
+  const startedAt = Date.now();
+  const { documentId, driveFileId, metadata, postDate, featuredImage, libraryImage } = prepared;
+  let existingWpId = getExistingPostId(row, prepared, client.name);
+  // Set once the WordPress call has been made and recorded
+  let recorded = false;
+
+  try {
+    // Before anything is created: reuse a post an earlier or concurrent run already made
+    const idempotencyKey = getIdempotencyKey(documentId, driveFileId, client.name);
+    existingWpId = existingWpId || await recoverExistingPost(client, row, idempotencyKey, metadata.slug);
+
+    // Nobody is around to review edits made in WordPress, so don't overwrite them
+    const knownPost = getSitePosts(prepared.storedDoc)[client.name];
+    if (existingWpId && knownPost?.postId === existingWpId && await findWordPressEdits(client, knownPost)) {
+      throw new Error(`Post ${existingWpId} on ${client.name} was edited in WordPress since it was last published; publish it from the dashboard to review the changes`);
+    }
+
+    // 3. Upload featured image
+    let featuredMediaId: number | undefined;
+    if (libraryImage || featuredImage?.asset) {
+      try {
+        const details = { altText: metadata.featuredImageAlt, caption: metadata.featuredImageCaption, title: metadata.title };
+        const uploadResult = libraryImage
+          ? await resolveLibraryImage(client, libraryImage, details)
+          : await uploadFeaturedImage(client, featuredImage!.asset!, details);
+
+        if (uploadResult.success && uploadResult.mediaId) {
+          featuredMediaId = uploadResult.mediaId;
+          console.log(`[Auto-publish Row ${row.rowIndex}] Featured image ${uploadResult.reused ? 'reused' : 'uploaded'} on ${client.name}: ID ${featuredMediaId}`);
+        }
+      } catch (imageError) {
+        console.warn(`[Auto-publish Row ${row.rowIndex}] Image upload to ${client.name} failed:`, imageError);
+        // Continue without image
+      }
+    }
+
+    // 4. Upload inline images and rewrite their src to the media library
+    const inlineImages = await uploadInlineImages(prepared.content, client);
+    if (inlineImages.errors.length > 0) {
+      throw new Error(`${inlineImages.errors.length} inline image(s) could not be uploaded to ${client.name}: ${inlineImages.errors[0]}`);
+    }
+
+    // 5. Get/create categories (with their parents) and tags
+    const categoryIds = await client.getOrCreateCategories(metadata.categories);
+    const tagIds = metadata.tags.length > 0 ? await client.getOrCreateTags(metadata.tags) : [];
+
+    // 6. Create or update WordPress post
+    const post: WordPressPost = {
+      title: metadata.title,
+      content: formatForWordPress(inlineImages.content, metadata.contentFormat),
+      excerpt: metadata.excerpt,
+      slug: metadata.slug,
+      status: 'publish',
+      date: postDate,
+      categories: categoryIds,
+      tags: tagIds,
+      featured_media: featuredMediaId,
+      format: 'standard',
+      meta: {
+        _yoast_wpseo_title: metadata.seoTitle || metadata.title,
+        _yoast_wpseo_metadesc: metadata.seoDescription || metadata.excerpt,
+        [IDEMPOTENCY_META_KEY]: idempotencyKey,
+      },
+    };
+
+    // Record the intent before calling WordPress so a crash mid-call can be recovered
+    const store = getStore();
+    const intent = await store.getPublishIntent(idempotencyKey);
+    const intentAt = new Date().toISOString();
+    await store.savePublishIntent({
+      key: idempotencyKey,
+      documentId,
+      slug: metadata.slug,
+      status: 'pending',
+      wpPostId: existingWpId || undefined,
+      createdAt: intent?.createdAt || intentAt,
+      updatedAt: intentAt,
+    });
+
+    let wpResult;
+
+    if (existingWpId) {
+      console.log(`[Auto-publish Row ${row.rowIndex}] Updating existing post on ${client.name}: WP ID ${existingWpId}`);
+      wpResult = await client.updatePost(existingWpId, post);
+    } else {
+      wpResult = await client.createPost(post);
+    }
+
+    await recordPublish({
+      ...history,
+      site: client.name,
+      action: existingWpId ? 'update' : 'create',
+      success: wpResult.success,
+      wpPostId: wpResult.postId || existingWpId || undefined,
+      wpPostUrl: wpResult.postUrl,
+      wpStatus: 'publish',
+      sentMetadata: describePost(post, metadata),
+      error: wpResult.error,
+      durationMs: Date.now() - startedAt,
+      createdAt: new Date().toISOString(),
+    });
+    recorded = true;
+
+    if (!wpResult.success || !wpResult.postId) {
+      return { site: client.name, success: false, error: wpResult.error || 'WordPress publish failed' };
+    }
+
+    await store.savePublishIntent({
+      key: idempotencyKey,
+      documentId,
+      slug: metadata.slug,
+      status: 'completed',
+      wpPostId: wpResult.postId,
+      createdAt: intent?.createdAt || intentAt,
+      updatedAt: new Date().toISOString(),
+    });
+
+    return {
+      site: client.name,
+      success: true,
+      postId: wpResult.postId,
+      postUrl: wpResult.postUrl,
+      publishedAt: wpResult.publishedAt,
+      content: inlineImages.content,
+      sentContent: post.content,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    // Failed before reaching WordPress (slug conflict, media, terms, ...)
+    if (!recorded) {
+      try {
+        await recordPublish({
+          ...history,
+          site: client.name,
+          action: existingWpId ? 'update' : 'create',
+          success: false,
+          wpPostId: existingWpId || undefined,
+          error: message,
+          durationMs: Date.now() - startedAt,
+          createdAt: new Date().toISOString(),
+        });
+      } catch (historyError) {
+        console.error(`[Auto-publish Row ${row.rowIndex}] Failed to record publish history:`, historyError);
+      }
+    }
+    return { site: client.name, success: false, error: message };
+  }
+}
+
+/**
+ * Dry run of publishRow: runs the pipeline up to the WordPress call and
+ * reports what would be created or updated. Nothing is written to
+ * WordPress, the sheet or the document store.
+ */
+export async function previewRow(
+  accessToken: string,
+  row: SheetRow
+): Promise<AutoPublishPreview> {
+  const preview: AutoPublishPreview = {
+    row: row.rowIndex,
+    title: row.title || row.blogPost,
+    sites: parseSites(row) || [],
+    action: 'create',
+    categories: [],
+    tags: [],
+    inlineImages: 0,
+    wordCount: 0,
+    missingFields: RECOMMENDED_COLUMNS.filter(([field]) => !String(row[field] || '').trim()).map(([, label]) => label),
+    aiFilledFields: [],
+    problems: [],
+    warnings: [],
+  };
+
+  try {
+    const prepared = await prepareRow(accessToken, row, { dryRun: true });
+    const { documentId, driveFileId, sites, content, metadata, postDate, featuredImage, libraryImage, warnings } = prepared;
+    // The rest of the preview is for the first site, the one the sheet mirrors
+    const client = getWordPressClient(sites[0]);
+    const idempotencyKey = getIdempotencyKey(documentId, driveFileId, client.name);
+    const intent = await getStore().getPublishIntent(idempotencyKey);
+    let existingWpId = getExistingPostId(row, prepared, client.name) || intent?.wpPostId || null;
+
+    preview.sites = sites;
+    if (sites.length > 1) {
+      preview.warnings.push(`Also publishes to ${sites.slice(1).join(', ')}; only ${sites[0]} is previewed`);
+    }
+    preview.title = metadata.title;
+    preview.slug = metadata.slug;
+    preview.postDate = postDate;
+    // The AI isn't asked in a dry run; these are the fields it would be asked for
+    preview.aiFilledFields = getMissingFields(metadata);
+    preview.inlineImages = (content.match(/<img\b/gi) || []).length;
+    preview.wordCount = content.replace(/<[^>]+>/g, ' ').split(/\s+/).filter(Boolean).length;
+    preview.warnings.push(...warnings);
+    if (intent?.status === 'pending') {
+      preview.warnings.push(`An earlier run was interrupted while publishing this row (${intent.updatedAt})`);
+    }
+
+    if (featuredImage?.asset) {
+      preview.featuredImage = {
+        filename: featuredImage.asset.filename,
+        mimeType: featuredImage.asset.mimeType,
+        sizeKb: Math.round(featuredImage.asset.size / 1024),
+      };
+    } else if (featuredImage) {
+      preview.featuredImage = { error: featuredImage.error };
+    } else if (libraryImage) {
+      try {
+        const media = await getWordPressClient(libraryImage.site).getMedia(libraryImage.mediaId);
+        preview.featuredImage = { filename: `${media.source_url.split('/').pop()} from the ${libraryImage.site} media library` };
+      } catch (mediaError) {
+        preview.featuredImage = { error: mediaError instanceof Error ? mediaError.message : 'Media library image not found' };
+      }
+    }
+
+    // Categories and tags: report which terms exist and which would be created
+    const [categories, tags] = await Promise.all([
+      client.getCategories(),
+      metadata.tags.length > 0 ? client.getTags() : Promise.resolve([]),
+    ]);
+    preview.categories = metadata.categories.map((path) => ({
+      name: path,
+      id: findCategoryByPath(categories, path)?.id,
+    }));
+    preview.tags = metadata.tags.map((name) => ({
+      name,
+      id: tags.find((t) => decodeTermName(t.name).toLowerCase() === name.toLowerCase())?.id,
+    }));
+
+    // Another post using the slug is either taken over (made for this row by an
+    // interrupted run) or a conflict that would fail the publish
+    if (!metadata.slug) {
+      preview.problems.push('No slug could be derived from the title');
+    } else {
+      const { adopt, conflict } = await findPostForSlug(client, metadata.slug, idempotencyKey, existingWpId);
+      const collision = conflict || (existingWpId ? adopt : undefined);
+      if (collision) {
+        preview.slugCollision = { postId: collision.id, postUrl: collision.link, status: collision.status };
+        preview.problems.push(
+          collision === conflict
+            ? `${describeSlugConflict(metadata.slug, collision, client.name)} (${collision.status})`
+            : `Slug "${metadata.slug}" is already used by post ${collision.id} (${collision.status})`
+        );
+      } else if (adopt) {
+        existingWpId = adopt.id;
+        preview.warnings.push(`A post an earlier run made for this row uses slug "${metadata.slug}" (${adopt.status}); it will be updated instead of creating a duplicate`);
+      }
+    }
+
+    const knownPost = getSitePosts(prepared.storedDoc)[client.name];
+    if (existingWpId && knownPost?.postId === existingWpId && await findWordPressEdits(client, knownPost)) {
+      preview.problems.push(`Post ${existingWpId} was edited in WordPress since it was last published; publish it from the dashboard to review the changes`);
+    }
+
+    preview.action = existingWpId ? 'update' : 'create';
+    preview.wpPostId = existingWpId || undefined;
+  } catch (error) {
+    preview.problems.push(error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  return preview;
+}
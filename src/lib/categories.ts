@@ -0,0 +1,118 @@
+import { DocumentMetadata, WordPressCategory } from '@/types';
+
+// Between a parent category and its child: "Investing > Index Funds"
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+
+export interface CategoryNode {
+  category: WordPressCategory;
+  path: string; // Full path from the top-level category
+  children: CategoryNode[];
+}
+
+/**
+ * The names along a category path, top-level first
+ */
+export function parseCategoryPath(path: string): string[] {
+  return path.split('>').map((name) => name.trim()).filter(Boolean);
+}
+
+/**
+ * Category paths from a comma-separated list (the sheet's Category column,
+ * frontmatter), in "Parent > Child" form. Duplicates are dropped.
+ */
+export function parseCategoryList(value: string): string[] {
+  const paths: string[] = [];
+  for (const item of value.split(',')) {
+    const path = parseCategoryPath(item).join(CATEGORY_PATH_SEPARATOR);
+    if (path && !paths.some((p) => p.toLowerCase() === path.toLowerCase())) {
+      paths.push(path);
+    }
+  }
+  return paths;
+}
+
+/**
+ * A term name as entered: the REST API returns names HTML-escaped ("Tips &amp; Tricks")
+ */
+export function decodeTermName(name: string): string {
+  return name
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * The category a path names, matching each level by name under its parent
+ * (case-insensitively). Undefined when any level doesn't exist yet.
+ */
+export function findCategoryByPath(categories: WordPressCategory[], path: string): WordPressCategory | undefined {
+  let parent = 0;
+  let found: WordPressCategory | undefined;
+  for (const name of parseCategoryPath(path)) {
+    found = categories.find(
+      (c) => (c.parent || 0) === parent && decodeTermName(c.name).toLowerCase() === name.toLowerCase()
+    );
+    if (!found) return undefined;
+    parent = found.id;
+  }
+  return found;
+}
+
+/**
+ * The full path of a category, e.g. "Investing > Index Funds"
+ */
+export function getCategoryPath(categories: WordPressCategory[], id: number): string | undefined {
+  const names: string[] = [];
+  const seen = new Set<number>();
+  let current = categories.find((c) => c.id === id);
+  // A parent outside the list (or a loop) ends the path where it is
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(decodeTermName(current.name));
+    current = current.parent ? categories.find((c) => c.id === current!.parent) : undefined;
+  }
+  return names.length > 0 ? names.join(CATEGORY_PATH_SEPARATOR) : undefined;
+}
+
+/**
+ * The categories as a tree, siblings sorted by name. Categories whose parent
+ * isn't in the list are shown at the top level.
+ */
+export function buildCategoryTree(categories: WordPressCategory[]): CategoryNode[] {
+  const ids = new Set(categories.map((c) => c.id));
+
+  const childrenOf = (parent: number, path: string, seen: Set<number>): CategoryNode[] =>
+    categories
+      .filter((c) => !seen.has(c.id) && (parent === 0 ? !c.parent || !ids.has(c.parent) : c.parent === parent))
+      .sort((a, b) => decodeTermName(a.name).localeCompare(decodeTermName(b.name)))
+      .map((category) => {
+        const name = decodeTermName(category.name);
+        const nodePath = path ? `${path}${CATEGORY_PATH_SEPARATOR}${name}` : name;
+        return {
+          category,
+          path: nodePath,
+          children: childrenOf(category.id, nodePath, new Set(seen).add(category.id)),
+        };
+      });
+
+  return childrenOf(0, '', new Set());
+}
+
+/**
+ * Metadata saved before posts could have several categories has a single
+ * `category` string; it becomes the one-item `categories` list
+ */
+export function upgradeCategoryMetadata<T extends Partial<DocumentMetadata>>(metadata: T): T {
+  const legacy = metadata as T & { category?: string; metadataSources?: Record<string, unknown> };
+  if (legacy.categories || typeof legacy.category !== 'string') return metadata;
+
+  const { category, ...rest } = legacy;
+  const upgraded = { ...rest, categories: parseCategoryList(category) } as unknown as T;
+  if (legacy.metadataSources && 'category' in legacy.metadataSources) {
+    const { category: source, ...sources } = legacy.metadataSources;
+    (upgraded as Partial<DocumentMetadata>).metadataSources = { ...sources, categories: source } as DocumentMetadata['metadataSources'];
+  }
+  return upgraded;
+}
@@ -0,0 +1,147 @@
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  value: string;
+}
+
+function pushPart(parts: DiffPart[], op: DiffOp, value: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.op === op) {
+    last.value += value;
+  } else {
+    parts.push({ op, value });
+  }
+}
+
+/**
+ * Myers' O(ND) diff of two token sequences: time grows with the number of
+ * edits rather than the product of the lengths. Returns null when the
+ * sequences differ by more than maxEdits tokens. Adjacent tokens with the
+ * same operation are merged into a single part.
+ */
+function myersDiff(before: string[], after: string[], maxEdits = Infinity): DiffPart[] | null {
+  const n = before.length;
+  const m = after.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // v after each step d, for diagonals -d..d, to walk the path back
+  const trace: Int32Array[] = [];
+
+  let edits = -1;
+  search: for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && before[x] === after[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        edits = d;
+        break search;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  if (edits < 0) return null;
+
+  // Walk back from the end, collecting operations in reverse
+  const ops: Array<[DiffOp, string]> = [];
+  let x = n;
+  let y = m;
+  for (let d = edits; d > 0; d--) {
+    const previous = trace[d - 1]; // Indexed by k + (d - 1)
+    const k = x - y;
+    const down = k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1]);
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = previous[prevK + d - 1];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push(['equal', before[--x]]);
+      y--;
+    }
+    if (down) {
+      ops.push(['insert', after[--y]]);
+    } else {
+      ops.push(['delete', before[--x]]);
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push(['equal', before[--x]]);
+    y--;
+  }
+
+  const parts: DiffPart[] = [];
+  for (let i = ops.length - 1; i >= 0; i--) {
+    pushPart(parts, ops[i][0], ops[i][1]);
+  }
+  return parts;
+}
+
+/**
+ * Diff of two token sequences. Adjacent tokens with the same operation are
+ * merged into a single part.
+ */
+export function diffSequences(before: string[], after: string[]): DiffPart[] {
+  return myersDiff(before, after)!;
+}
+
+// Beyond this many word edits in one changed passage, it is shown as replaced outright
+const MAX_WORD_EDITS = 1000;
+
+/**
+ * Word-level diff of two strings. Lines (paragraphs) are compared first and
+ * only changed passages are diffed word by word, so whole articles stay fast.
+ * Whitespace is kept as its own token so the parts can be rendered back to back.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const splitLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+  const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+  const lineParts = diffSequences(splitLines(before), splitLines(after));
+
+  const parts: DiffPart[] = [];
+  for (let i = 0; i < lineParts.length; i++) {
+    const part = lineParts[i];
+    const next = lineParts[i + 1];
+    if (part.op === 'equal' || !next || next.op === 'equal') {
+      pushPart(parts, part.op, part.value);
+      continue;
+    }
+
+    // A deleted passage next to an inserted one: a changed passage
+    const removed = part.op === 'delete' ? part.value : next.value;
+    const added = part.op === 'insert' ? part.value : next.value;
+    const words = myersDiff(tokenize(removed), tokenize(added), MAX_WORD_EDITS)
+      || [{ op: 'delete' as const, value: removed }, { op: 'insert' as const, value: added }];
+    for (const word of words) {
+      pushPart(parts, word.op, word.value);
+    }
+    i++;
+  }
+
+  return parts;
+}
+
+/** Plain text of an HTML fragment, for display and comparison. */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|li|h[1-6]|blockquote|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*/g, '\n')
+    .trim();
+}
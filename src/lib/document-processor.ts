@@ -1,5 +1,40 @@
 import mammoth from 'mammoth';
-import { Document } from '@/types';
+import { micromark } from 'micromark';
+import { gfm, gfmHtml } from 'micromark-extension-gfm';
+import type { CheerioAPI } from 'cheerio/slim';
+import type { Element } from 'domhandler';
+import { DEFAULT_ALLOWED_ATTRIBUTES, loadHtml, sanitizeHtml, SanitizeOptions } from './html-sanitizer';
+import { htmlToBlocks } from './gutenberg';
+import { ContentFormat } from '@/types';
+
+export const GOOGLE_DOC_MIME_TYPE = 'application/vnd.google-apps.document';
+
+/**
+ * A Drive file whose format can't be converted; API routes answer 415
+ */
+export class UnsupportedDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedDocumentError';
+  }
+}
+
+const FRONTMATTER_PATTERN = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[^\S\r\n]*(?:\r?\n|$)/;
+
+// Footnote references and back-links point at each other by id
+const MARKDOWN_ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  ...DEFAULT_ALLOWED_ATTRIBUTES,
+  a: ['href', 'id'],
+  li: ['id'],
+};
+
+/**
+ * Drive reports Markdown files under several types (or as plain text or
+ * octet-stream), so the extension counts too
+ */
+export function isMarkdownFile(mimeType: string, fileName: string): boolean {
+  return mimeType === 'text/markdown' || mimeType === 'text/x-markdown' || /\.(md|markdown)$/i.test(fileName);
+}
 
 export async function processDocument(
   content: string | Buffer,
@@ -7,54 +42,40 @@ export async function processDocument(
   fileName: string
 ): Promise<string> {
   switch (mimeType) {
-    case 'application/vnd.google-apps.document':
+    case GOOGLE_DOC_MIME_TYPE:
       // Google Docs are exported as HTML - needs special handling
       return cleanGoogleDocsHtml(content as string);
 
     case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-    case 'application/msword':
       return await processWordDocument(content as Buffer);
 
+    case 'application/msword':
+      // mammoth only reads the .docx format
+      throw new UnsupportedDocumentError(
+        `"${fileName}" is a legacy Word document (.doc); save it as .docx or open it as a Google Doc`
+      );
+
     case 'application/pdf':
       return await processPdfDocument(content as Buffer);
 
-    case 'text/markdown':
-    case 'text/x-markdown':
-      return processMarkdown(content.toString());
-
-    case 'text/plain':
-      return content.toString();
-
     default:
-      // Try to handle as text if possible
-      if (fileName.endsWith('.md')) {
+      if (isMarkdownFile(mimeType, fileName)) {
         return processMarkdown(content.toString());
       }
-      throw new Error(`Unsupported file type: ${mimeType}`);
+      if (mimeType === 'text/plain') {
+        return textToHtml(content.toString());
+      }
+      throw new UnsupportedDocumentError(`Unsupported file type: ${mimeType}`);
   }
 }
 
 function cleanGoogleDocsHtml(html: string): string {
   // Google Docs exports include a full HTML document with head, styles, etc.
-  // Extract just the body content
-  let content = html;
-
-  // Extract body content if it's a full HTML document
-  const bodyMatch = content.match(/<body[^>]*>([\s\S]*)<\/body>/i);
-  if (bodyMatch) {
-    content = bodyMatch[1];
-  }
-
-  // Remove Google Docs specific elements
-  // Remove the document title that Google adds at the top
-  content = content.replace(/<p[^>]*class="[^"]*title[^"]*"[^>]*>[\s\S]*?<\/p>/gi, '');
-  content = content.replace(/<h1[^>]*class="[^"]*title[^"]*"[^>]*>[\s\S]*?<\/h1>/gi, '');
-
-  // Remove Google Docs specific divs and wrappers
-  content = content.replace(/<div[^>]*class="[^"]*doc-content[^"]*"[^>]*>/gi, '');
-
-  // Now apply standard cleaning
-  return cleanHtml(content);
+  // The sanitizer reads the class styles and keeps only the body content;
+  // the document title/subtitle that Google adds at the top is dropped.
+  return cleanHtml(html, {
+    removeSelectors: ['p.title', 'h1.title', 'p.subtitle'],
+  });
 }
 
 async function processWordDocument(buffer: Buffer): Promise<string> {
@@ -66,113 +87,105 @@ async function processPdfDocument(buffer: Buffer): Promise<string> {
   // Dynamic import to avoid issues with pdf-parse in Next.js
   const pdfParse = (await import('pdf-parse')).default;
   const data = await pdfParse(buffer);
-  return data.text;
+  return textToHtml(data.text);
 }
 
-function processMarkdown(content: string): string {
-  // Strip frontmatter if present
-  const frontmatterRegex = /^---\n[\s\S]*?\n---\n/;
-  return content.replace(frontmatterRegex, '').trim();
-}
-
-function cleanHtml(html: string): string {
-  // Step 1: Remove common meta information sections at the end
-  // These patterns catch meta sections with various headings
-  let cleaned = html;
-
-  // Remove horizontal rules and everything after (often used to separate meta)
-  cleaned = cleaned.replace(/<hr[^>]*>[\s\S]*$/gi, '');
-
-  // Remove sections that start with meta-related headings
-  const metaHeadings = [
-    'meta information', 'meta info', 'article meta', 'post meta',
-    'seo information', 'seo info', 'seo details', 'seo',
-    'metadata', 'meta data', 'article information',
-    'keywords', 'tags', 'categories',
-    'notes', 'internal notes', 'editor notes',
-    '---' // horizontal line in text form
-  ];
-
-  for (const heading of metaHeadings) {
-    // Match heading in paragraph
-    const pPattern = new RegExp(`<p[^>]*>[\\s]*${heading.replace(/\s+/g, '\\s*')}[\\s]*:?[\\s]*<\\/p>[\\s\\S]*$`, 'gi');
-    cleaned = cleaned.replace(pPattern, '');
-
-    // Match heading in any heading tag
-    const hPattern = new RegExp(`<h\\d[^>]*>[\\s]*${heading.replace(/\s+/g, '\\s*')}[\\s]*:?[\\s]*<\\/h\\d>[\\s\\S]*$`, 'gi');
-    cleaned = cleaned.replace(hPattern, '');
-
-    // Match as bold text starting a paragraph
-    const bPattern = new RegExp(`<p[^>]*>[\\s]*<(?:strong|b)>[\\s]*${heading.replace(/\s+/g, '\\s*')}[\\s]*:?[\\s]*<\\/(?:strong|b)>[\\s\\S]*$`, 'gi');
-    cleaned = cleaned.replace(bPattern, '');
-  }
+/**
+ * Plain text to paragraphs: blank lines separate paragraphs, single line
+ * breaks (lines wrapped in a PDF) are joined
+ */
+function textToHtml(text: string): string {
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 
-  // Also remove any trailing content after common separator patterns
-  cleaned = cleaned.replace(/[-_=]{3,}[\s\S]*$/g, '');
-  cleaned = cleaned.replace(/\*{3,}[\s\S]*$/g, '');
+  const paragraphs = text
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => paragraph.replace(/\s*\r?\n\s*/g, ' ').trim())
+    .filter(Boolean);
 
-  // Step 2: Remove everything except allowed tags
-  // Allowed: p, h1-h6, strong, b, em, i, ul, ol, li, br, a (with href only)
+  return cleanHtml(paragraphs.map((paragraph) => `<p>${escape(paragraph)}</p>`).join('\n'));
+}
 
-  // Remove script and style tags with their content
-  cleaned = cleaned.replace(/<script[\s\S]*?<\/script>/gi, '');
-  cleaned = cleaned.replace(/<style[\s\S]*?<\/style>/gi, '');
+/**
+ * Renders Markdown with GitHub extensions (tables, footnotes, strikethrough,
+ * autolinks). Frontmatter is read separately by extractFrontmatter; raw HTML
+ * in the source is escaped, not rendered.
+ */
+function processMarkdown(content: string): string {
+  const html = micromark(content.replace(FRONTMATTER_PATTERN, ''), {
+    extensions: [gfm()],
+    // A paragraph, not a heading, so the label is never mistaken for the title
+    htmlExtensions: [gfmHtml({ labelTagName: 'p' })],
+  });
+  return cleanHtml(html, { allowedAttributes: MARKDOWN_ALLOWED_ATTRIBUTES });
+}
 
-  // Remove comments
-  cleaned = cleaned.replace(/<!--[\s\S]*?-->/g, '');
+// Headings that start a trailing meta/notes section which must not be published
+const META_HEADINGS = [
+  'meta information', 'meta info', 'article meta', 'post meta',
+  'seo information', 'seo info', 'seo details', 'seo',
+  'metadata', 'meta data', 'article information',
+  'keywords', 'tags', 'categories',
+  'notes', 'internal notes', 'editor notes',
+];
 
-  // Remove all attributes except href on anchor tags
-  // First, preserve href on anchors
-  cleaned = cleaned.replace(/<a\s+[^>]*href=["']([^"']*)["'][^>]*>/gi, '<a href="$1">');
+function isMetaHeading($: CheerioAPI, el: Element): boolean {
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').replace(/\s*:\s*$/, '').trim();
 
-  // Remove all attributes from other tags
-  cleaned = cleaned.replace(/<(p|h[1-6]|strong|b|em|i|ul|ol|li|br|div|span)\s+[^>]*>/gi, '<$1>');
+  if (/^(p|h[1-6])$/.test(el.name) && META_HEADINGS.includes(normalize($(el).text()))) {
+    return true;
+  }
 
-  // Convert div and span to appropriate elements or remove
-  cleaned = cleaned.replace(/<div[^>]*>/gi, '<p>');
-  cleaned = cleaned.replace(/<\/div>/gi, '</p>');
-  cleaned = cleaned.replace(/<span[^>]*>/gi, '');
-  cleaned = cleaned.replace(/<\/span>/gi, '');
+  // Bold label starting a paragraph, e.g. "<p><strong>SEO:</strong> ...</p>"
+  const first = $(el).contents().first();
+  return el.name === 'p' && first.is('strong') && META_HEADINGS.includes(normalize(first.text()));
+}
 
-  // Remove any remaining disallowed tags but keep their content
-  const allowedTags = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'strong', 'b', 'em', 'i', 'ul', 'ol', 'li', 'br', 'a'];
-  const tagPattern = /<\/?([a-z][a-z0-9]*)\b[^>]*>/gi;
-  cleaned = cleaned.replace(tagPattern, (match, tagName) => {
-    if (allowedTags.includes(tagName.toLowerCase())) {
-      return match;
-    }
-    return '';
-  });
+function isSeparator($: CheerioAPI, el: Element): boolean {
+  return el.name !== 'hr' && /^\s*(?:[-_=]{3,}|\*{3,})\s*$/.test($(el).text()) && $(el).find('img').length === 0;
+}
 
-  // Step 3: Clean up whitespace
-  // Replace multiple spaces with single space
-  cleaned = cleaned.replace(/[ \t]+/g, ' ');
+/**
+ * Removes meta information sections at the end of the document: everything
+ * from a meta heading (or a text separator like "---") onwards. A horizontal
+ * rule directly before a meta heading goes with it; other rules are content.
+ */
+function removeMetaSections(html: string): string {
+  const $ = loadHtml(html, false);
+  const blocks = $.root().children().toArray();
 
-  // Remove spaces at the start/end of tags
-  cleaned = cleaned.replace(/>\s+/g, '>');
-  cleaned = cleaned.replace(/\s+</g, '<');
+  let cutIndex = blocks.findIndex((el) => isSeparator($, el) || isMetaHeading($, el));
+  if (cutIndex === -1) return html;
 
-  // Fix empty paragraphs
-  cleaned = cleaned.replace(/<p><\/p>/gi, '');
-  cleaned = cleaned.replace(/<p>\s*<\/p>/gi, '');
+  if (cutIndex > 0 && blocks[cutIndex - 1].name === 'hr') {
+    cutIndex--;
+  }
 
-  // Fix multiple consecutive breaks
-  cleaned = cleaned.replace(/(<br\s*\/?>\s*){3,}/gi, '<br><br>');
+  blocks.slice(cutIndex).forEach((el) => $(el).remove());
 
-  // Fix multiple consecutive paragraphs with just whitespace between
-  cleaned = cleaned.replace(/(<\/p>\s*<p>)+/gi, '</p><p>');
+  return blocks
+    .slice(0, cutIndex)
+    .map((el) => $.html(el))
+    .join('\n\n');
+}
 
-  // Ensure proper paragraph spacing for WordPress
-  cleaned = cleaned.replace(/<\/p><p>/g, '</p>\n\n<p>');
-  cleaned = cleaned.replace(/<\/h(\d)><p>/g, '</h$1>\n\n<p>');
-  cleaned = cleaned.replace(/<\/p><h(\d)>/g, '</p>\n\n<h$1>');
+function cleanHtml(html: string, options?: SanitizeOptions): string {
+  return removeMetaSections(sanitizeHtml(html, options));
+}
 
-  // Step 4: Remove any leading/trailing non-content
-  // Remove everything before the first real content tag
-  cleaned = cleaned.replace(/^[^<]*/, '');
+/**
+ * Returns the default content format from WORDPRESS_CONTENT_FORMAT (classic unless set to "blocks")
+ */
+export function getDefaultContentFormat(): ContentFormat {
+  return process.env.WORDPRESS_CONTENT_FORMAT === 'blocks' ? 'blocks' : 'classic';
+}
 
-  // Trim and return
-  return cleaned.trim();
+/**
+ * Renders cleaned HTML in the format WordPress should receive: classic HTML
+ * as-is, or serialized Gutenberg blocks. Falls back to the global default.
+ */
+export function formatForWordPress(html: string, format?: ContentFormat): string {
+  const resolved = format || getDefaultContentFormat();
+  return resolved === 'blocks' ? htmlToBlocks(html) : html;
 }
 
 export interface TitleExtractionResult {
@@ -220,21 +233,38 @@ export function extractTitleFromContent(html: string): TitleExtractionResult {
   };
 }
 
+/**
+ * Reads simple YAML frontmatter: `key: value` lines. Lists, inline
+ * (`[a, b]`) or as indented `- item` lines, come back comma-separated.
+ */
 export function extractFrontmatter(content: string): Record<string, string> | null {
-  const frontmatterRegex = /^---\n([\s\S]*?)\n---/;
-  const match = content.match(frontmatterRegex);
+  const match = content.match(FRONTMATTER_PATTERN);
 
   if (!match) return null;
 
+  const unquote = (value: string) => value.trim().replace(/^["']|["']$/g, '');
   const frontmatter: Record<string, string> = {};
-  const lines = match[1].split('\n');
+  const lines = match[1].split(/\r?\n/);
+  let listKey: string | null = null;
 
   for (const line of lines) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      const value = unquote(item[1]);
+      frontmatter[listKey] = frontmatter[listKey] ? `${frontmatter[listKey]}, ${value}` : value;
+      continue;
+    }
+
     const colonIndex = line.indexOf(':');
     if (colonIndex > 0) {
       const key = line.slice(0, colonIndex).trim();
-      const value = line.slice(colonIndex + 1).trim().replace(/^["']|["']$/g, '');
-      frontmatter[key] = value;
+      const value = line.slice(colonIndex + 1).trim();
+      const inlineList = value.match(/^\[(.*)\]$/);
+      frontmatter[key] = inlineList
+        ? inlineList[1].split(',').map(unquote).filter(Boolean).join(', ')
+        : unquote(value);
+      // A key without a value may be followed by "- item" lines
+      listKey = value ? null : key;
     }
   }
 
@@ -0,0 +1,101 @@
+import { DriveFileMetadata, extractDriveFileId, getDocumentContent, getFileMetadata } from './google-drive';
+import { getContentRepoData } from './google-sheets';
+import { extractFrontmatter, extractTitleFromContent, isMarkdownFile, processDocument } from './document-processor';
+import { frontmatterToMetadata } from './metadata';
+import { getSitePosts, WordPressClient } from './wordpress';
+import { htmlToText } from './content-diff';
+import { Document, DocumentMetadata, SitePost, WordPressEdits } from '@/types';
+
+export interface DriveDocument {
+  content: string; // Cleaned HTML, first heading removed
+  title: string | null; // The first heading, if there was one
+  mimeType: string;
+  metadata: Partial<DocumentMetadata>; // What the document says about itself (Markdown frontmatter)
+  revision?: string;
+  modifiedTime?: string;
+}
+
+/**
+ * Whether a stored document is the article its sheet row links to now.
+ * Documents are stored under their row ("sheet-12"), so after rows are
+ * inserted, deleted or sorted the ID can hold another article, whose
+ * WordPress posts must not be reused.
+ */
+export function isStoredCopyOf(
+  stored: Document | null | undefined,
+  driveFileId: string | null | undefined
+): stored is Document {
+  return !!stored && !!driveFileId && stored.driveFileId === driveFileId;
+}
+
+/**
+ * The Google Doc behind a document: recorded when it was processed or
+ * published, otherwise looked up from its sheet row's Blog Link
+ */
+export async function getDriveFileId(accessToken: string, doc: Document): Promise<string | null> {
+  if (doc.driveFileId) return doc.driveFileId;
+  if (!doc.sheetRowIndex) return null;
+
+  const rows = await getContentRepoData(accessToken);
+  const row = rows.find((r) => r.rowIndex === doc.sheetRowIndex);
+  return row ? extractDriveFileId(row.blogLink) : null;
+}
+
+/**
+ * Fetches a Drive document (Google Doc, Word, PDF or Markdown, by its real
+ * type) and converts it to clean HTML for publishing. The revision is read
+ * before the content, so an edit made in between leaves the document looking
+ * out of sync instead of hiding the edit.
+ */
+export async function fetchDriveDocument(accessToken: string, driveFileId: string): Promise<DriveDocument> {
+  const file = await getFileMetadata(accessToken, driveFileId);
+  const source = await getDocumentContent(accessToken, driveFileId, file.mimeType);
+  const html = await processDocument(source, file.mimeType, file.name);
+  const { title, contentWithoutTitle } = extractTitleFromContent(html);
+
+  const frontmatter = isMarkdownFile(file.mimeType, file.name) ? extractFrontmatter(source.toString()) : null;
+
+  return {
+    content: contentWithoutTitle,
+    title,
+    mimeType: file.mimeType,
+    metadata: frontmatter ? frontmatterToMetadata(frontmatter) : {},
+    revision: file.revision,
+    modifiedTime: file.modifiedTime,
+  };
+}
+
+/**
+ * Whether a post was published from an older version of the Google Doc.
+ * Posts published before revisions were recorded are compared by time: the
+ * Doc's modified time against when the post was last written.
+ */
+export function isPostOutOfSync(post: SitePost, file: DriveFileMetadata): boolean {
+  if (post.revision && file.revision) {
+    return post.revision !== file.revision;
+  }
+  const writtenAt = post.updatedAt || post.publishedAt;
+  return !!writtenAt && !!file.modifiedTime && new Date(file.modifiedTime) > new Date(writtenAt);
+}
+
+/** Sites whose post is out of sync with the Google Doc */
+export function getOutOfSyncSites(doc: Document, file: DriveFileMetadata): string[] {
+  return Object.entries(getSitePosts(doc))
+    .filter(([, post]) => isPostOutOfSync(post, file))
+    .map(([site]) => site);
+}
+
+/**
+ * Content edits made in WordPress since this app last wrote the post, or
+ * null when there are none. Text is compared, not markup, so WordPress
+ * tidying the HTML isn't mistaken for an edit. Posts published before
+ * content snapshots were kept can't be checked.
+ */
+export async function findWordPressEdits(client: WordPressClient, post: SitePost): Promise<WordPressEdits | null> {
+  if (post.publishedContent === undefined) return null;
+
+  const live = (await client.getPost(post.postId)).content.raw;
+  if (htmlToText(live) === htmlToText(post.publishedContent)) return null;
+
+  return { site: client.name, postId: post.postId, published: post.publishedContent, live };
+}
@@ -0,0 +1,81 @@
+import { reviewBlocks } from './ai';
+import { loadHtml, sanitizeHtml, splitBlocks } from './html-sanitizer';
+import { EditorialChange, EditorialPassResult } from '@/types';
+
+// Blocks the editorial pass may rewrite; headings, images, tables and code are left alone
+const EDITABLE_TAGS = ['p', 'ul', 'ol', 'blockquote'];
+
+interface BlockShape {
+  tag: string;
+  links: string[];
+  listItems: number;
+  text: string;
+}
+
+function getShape(html: string): BlockShape | null {
+  const $ = loadHtml(html, false);
+  const elements = $.root().children();
+  if (elements.length !== 1) return null;
+
+  const root = elements.first();
+  return {
+    tag: root.prop('tagName')?.toLowerCase() || '',
+    links: root.find('a').toArray().map((a) => $(a).attr('href') || ''),
+    listItems: root.find('li').length,
+    text: root.text().replace(/\s+/g, ' ').trim(),
+  };
+}
+
+/**
+ * Checks that a revision kept the block's structure: same outer tag, same
+ * number of list items, no new headings and exactly the same links.
+ */
+function validateRevision(original: BlockShape, revised: BlockShape | null, revisedHtml: string): string | null {
+  if (!revised) return 'revision is not a single block';
+  if (revised.tag !== original.tag) return `block changed from <${original.tag}> to <${revised.tag}>`;
+  if (revised.listItems !== original.listItems) return 'list items were added or removed';
+  if (/<h[1-6]\b/i.test(revisedHtml)) return 'revision introduced a heading';
+  if (revised.links.join('\n') !== original.links.join('\n')) return 'links were changed';
+  if (!revised.text) return 'revision is empty';
+  return null;
+}
+
+/**
+ * Runs a grammar/clarity review over the processed HTML. Returns the content
+ * split into top-level blocks plus the proposed per-block changes, so the
+ * caller can accept or reject each change individually.
+ */
+export async function runEditorialPass(html: string): Promise<EditorialPassResult> {
+  const blocks = splitBlocks(html);
+  const shapes = blocks.map(getShape);
+
+  const editable = blocks
+    .map((block, id) => ({ id, html: block }))
+    .filter(({ id }) => EDITABLE_TAGS.includes(shapes[id]?.tag || '') && shapes[id]?.text);
+
+  const revisions = await reviewBlocks(editable);
+  const changes: EditorialChange[] = [];
+  const seen = new Set<number>();
+
+  for (const revision of revisions) {
+    const original = shapes[revision.id];
+    if (seen.has(revision.id) || !editable.some((block) => block.id === revision.id) || !original) {
+      continue;
+    }
+    seen.add(revision.id);
+
+    const revisedHtml = sanitizeHtml(revision.html, { mapInlineStyles: false });
+    const rejection = validateRevision(original, getShape(revisedHtml), revisedHtml);
+    if (rejection) {
+      console.warn(`[Editorial] Discarded change to block ${revision.id}: ${rejection}`);
+      continue;
+    }
+
+    if (revisedHtml !== sanitizeHtml(blocks[revision.id], { mapInlineStyles: false })) {
+      changes.push({ index: revision.id, original: blocks[revision.id], revised: revisedHtml });
+    }
+  }
+
+  changes.sort((a, b) => a.index - b.index);
+  return { blocks, changes };
+}
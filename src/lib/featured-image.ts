@@ -1,28 +1,58 @@
-import { extractDriveFileId, extractDriveFolderId, findImageInFolder, getFileMetadata, downloadFile } from './google-drive';
-import { uploadMedia } from './wordpress';
+import crypto from 'crypto';
+import {
+  downloadFile,
+  extractDriveFileId,
+  extractDriveFolderId,
+  findImageInFolder,
+  getFileMetadata,
+  getParentFolderId,
+  listImagesInFolder,
+} from './google-drive';
+import {
+  createThumbnail,
+  describeImageProcessingSettings,
+  getImageProcessingSettings,
+  processImage,
+  ProcessedImage,
+} from './image-processing';
+import { getStore } from './store';
+import { uploadImage } from './inline-images';
+import { getWordPressClient, WordPressClient } from './wordpress';
+import { DriveImage, ImageAsset } from '@/types';
 
 export interface DownloadedImage {
   success: boolean;
-  data?: string; // Base64 encoded
-  mimeType?: string;
-  filename?: string;
+  asset?: ImageAsset; // Saved in the asset cache, except in a dry run
   error?: string;
 }
 
+// Written to the WordPress media item after upload
+export interface FeaturedImageDetails {
+  altText?: string;
+  caption?: string;
+  title?: string;
+}
+
 export interface UploadResult {
   success: boolean;
   mediaId?: number;
   mediaUrl?: string;
+  reused?: boolean; // Already in the site's media library
   error?: string;
 }
 
 /**
- * Downloads an image from Google Drive and returns it as base64
+ * Downloads an image from Google Drive, resizes and re-encodes it (see
+ * processImage) and saves it with a thumbnail in the asset cache, keyed by
+ * its Drive file ID. An image cached from the same Drive revision with the
+ * same settings isn't downloaded again. With `dryRun` the image is still
+ * downloaded and processed, to report what would be uploaded, but not cached.
  * Used during document processing to show preview
  */
 export async function downloadFeaturedImage(
   accessToken: string,
-  photoLink: string
+  photoLink: string,
+  options: { dryRun?: boolean } = {}
 ): Promise<DownloadedImage> {
   try {
     let fileId = extractDriveFileId(photoLink);
@@ -64,18 +94,60 @@ export async function downloadFeaturedImage(
       }
     }
 
+    const store = getStore();
+    const processedWith = describeImageProcessingSettings(getImageProcessingSettings());
+    const cached = await store.getAsset(fileId);
+    if (cached && cached.sourceRevision && cached.sourceRevision === metadata.revision && cached.processedWith === processedWith) {
+      console.log(`Featured image ${metadata.name} is cached as ${cached.filename}`);
+      return { success: true, asset: cached };
+    }
+
     // Step 3: Download the file from Drive
     const imageBuffer = await downloadFile(accessToken, fileId);
 
-    // Step 4: Convert to base64 for preview
-    const base64Data = imageBuffer.toString('base64');
+    // Step 4: Resize, convert and strip EXIF; an image sharp can't read is used as is
+    let image: ProcessedImage = { buffer: imageBuffer, mimeType: metadata.mimeType, filename: metadata.name };
+    try {
+      const processed = await processImage(imageBuffer, metadata.name);
+      console.log(
+        `Featured image processed: ${metadata.name} (${Math.round(imageBuffer.length / 1024)} KB) → ` +
+        `${processed.filename} (${Math.round(processed.buffer.length / 1024)} KB)`
+      );
+      image = processed;
+    } catch (processError) {
+      console.warn(`Featured image ${metadata.name} could not be processed, uploading the original:`, processError);
+    }
 
-    return {
-      success: true,
-      data: base64Data,
-      mimeType: metadata.mimeType,
-      filename: metadata.name,
+    const asset: ImageAsset = {
+      id: fileId,
+      sourceRevision: metadata.revision,
+      filename: image.filename,
+      mimeType: image.mimeType,
+      size: image.buffer.length,
+      width: image.width,
+      height: image.height,
+      contentHash: crypto.createHash('sha256').update(image.buffer).digest('hex'),
+      processedWith,
+      thumbnailMimeType: image.mimeType,
+      createdAt: new Date().toISOString(),
     };
+    if (options.dryRun) {
+      return { success: true, asset };
+    }
+
+    // Step 5: Thumbnail for the preview; the image itself when it can't be made
+    let thumbnail = { buffer: image.buffer, mimeType: image.mimeType };
+    try {
+      thumbnail = await createThumbnail(image.buffer);
+    } catch (thumbnailError) {
+      console.warn(`Could not create a thumbnail of ${image.filename}:`, thumbnailError);
+    }
+
+    // Step 6: Cache it; the browser only gets the asset's ID
+    asset.thumbnailMimeType = thumbnail.mimeType;
+    await store.saveAsset(asset, image.buffer, thumbnail.buffer);
+
+    return { success: true, asset };
   } catch (error) {
     console.error('Featured image download error:', error);
     return {
@@ -85,34 +157,98 @@ export async function downloadFeaturedImage(
   }
 }
 
+// Blank fields are left alone: WordPress titles the item after the file
+function toMediaFields(details: FeaturedImageDetails): { alt_text?: string; caption?: string; title?: string } {
+  return {
+    ...(details.altText && { alt_text: details.altText }),
+    ...(details.caption && { caption: details.caption }),
+    ...(details.title && { title: details.title }),
+  };
+}
+
+/**
+ * Uploads image bytes to a site's media library, sets the media fields and
+ * adds the item to the site's media index
+ */
+async function uploadToLibrary(
+  client: WordPressClient,
+  image: { buffer: Buffer; filename: string; mimeType: string; contentHash: string },
+  details: FeaturedImageDetails,
+  source: { driveFileId?: string; driveRevision?: string } = {}
+): Promise<UploadResult> {
+  const uploadResult = await client.uploadMedia(image.buffer, image.filename, image.mimeType);
+
+  if (!uploadResult.success || !uploadResult.mediaId || !uploadResult.mediaUrl) {
+    return {
+      success: false,
+      error: uploadResult.error,
+    };
+  }
+
+  // The image is already in the library, so a failure here doesn't fail the upload
+  const fields = toMediaFields(details);
+  if (Object.keys(fields).length > 0) {
+    const updateResult = await client.updateMedia(uploadResult.mediaId, fields);
+    if (!updateResult.success) {
+      console.warn(`Could not set alt text on media ${uploadResult.mediaId}: ${updateResult.error}`);
+    }
+  }
+
+  await getStore().saveMediaRecord({
+    site: client.name,
+    contentHash: image.contentHash,
+    mediaId: uploadResult.mediaId,
+    mediaUrl: uploadResult.mediaUrl,
+    ...source,
+    createdAt: new Date().toISOString(),
+  });
+
+  return {
+    success: true,
+    mediaId: uploadResult.mediaId,
+    mediaUrl: uploadResult.mediaUrl,
+  };
+}
+
 /**
- * Uploads an already-downloaded image to WordPress
+ * Uploads a cached image to a WordPress site, then sets its alt text,
+ * caption and title. An image the site already has (same bytes, or the same
+ * Drive revision) is reused instead of uploaded again.
  * Used during publishing
  */
 export async function uploadFeaturedImage(
-  imageData: string, // Base64 encoded
-  filename: string,
-  mimeType: string
+  client: WordPressClient,
+  asset: ImageAsset,
+  details: FeaturedImageDetails = {}
 ): Promise<UploadResult> {
   try {
-    // Convert base64 back to buffer
-    const imageBuffer = Buffer.from(imageData, 'base64');
+    const store = getStore();
+    const fields = toMediaFields(details);
 
-    // Upload to WordPress
-    const uploadResult = await uploadMedia(imageBuffer, filename, mimeType);
+    const existing = await store.findMediaByHash(client.name, asset.contentHash)
+      || (asset.sourceRevision ? await store.findMediaByDriveFile(client.name, asset.id, asset.sourceRevision) : null);
+    if (existing) {
+      // Also confirms the item is still in the library; upload again if it was deleted
+      const updateResult = Object.keys(fields).length > 0
+        ? await client.updateMedia(existing.mediaId, fields)
+        : { success: true };
+      if (updateResult.success) {
+        return { success: true, mediaId: existing.mediaId, mediaUrl: existing.mediaUrl, reused: true };
+      }
+      console.warn(`Media ${existing.mediaId} on ${client.name} could not be reused: ${updateResult.error}`);
+    }
 
-    if (!uploadResult.success) {
-      return {
-        success: false,
-        error: uploadResult.error,
-      };
+    const imageBuffer = await store.getAssetData(asset.id, 'full');
+    if (!imageBuffer) {
+      return { success: false, error: `Featured image ${asset.filename} is no longer cached; process the document again` };
     }
 
-    return {
-      success: true,
-      mediaId: uploadResult.mediaId,
-      mediaUrl: uploadResult.mediaUrl,
-    };
+    return await uploadToLibrary(
+      client,
+      { ...asset, buffer: imageBuffer },
+      details,
+      { driveFileId: asset.id, driveRevision: asset.sourceRevision }
+    );
   } catch (error) {
     console.error('Featured image upload error:', error);
     return {
@@ -121,3 +257,76 @@ export async function uploadFeaturedImage(
     };
   }
 }
+
+/**
+ * Processes an image uploaded from the browser the same way as Drive images
+ * and adds it to a site's media library (reusing an identical earlier upload)
+ */
+export async function uploadLocalImage(
+  client: WordPressClient,
+  buffer: Buffer,
+  filename: string,
+  details: FeaturedImageDetails = {}
+): Promise<UploadResult> {
+  try {
+    const image = await processImage(buffer, filename);
+    const contentHash = crypto.createHash('sha256').update(image.buffer).digest('hex');
+
+    const existing = await getStore().findMediaByHash(client.name, contentHash);
+    if (existing) {
+      return { success: true, mediaId: existing.mediaId, mediaUrl: existing.mediaUrl, reused: true };
+    }
+
+    return await uploadToLibrary(client, { ...image, contentHash }, details);
+  } catch (error) {
+    console.error('Local image upload error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to upload image',
+    };
+  }
+}
+
+/**
+ * Featured image for a site when the Photo Link is a media library item:
+ * the item itself on its own site, a copy (with its alt text and caption,
+ * unless the sheet gives them) on any other
+ */
+export async function resolveLibraryImage(
+  client: WordPressClient,
+  link: { site: string; mediaId: number },
+  details: FeaturedImageDetails = {}
+): Promise<UploadResult> {
+  if (client.name === link.site) {
+    return { success: true, mediaId: link.mediaId, reused: true };
+  }
+
+  try {
+    const media = await getWordPressClient(link.site).getMedia(link.mediaId);
+    const caption = details.caption || media.caption.raw.replace(/<[^>]+>/g, '').trim();
+    const copied = await uploadImage(client, media.source_url, details.altText || media.alt_text, caption);
+    return { success: true, mediaId: copied.mediaId, mediaUrl: copied.mediaUrl, reused: copied.reused };
+  } catch (error) {
+    console.error(`Could not copy media ${link.mediaId} from ${link.site} to ${client.name}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to copy featured image',
+    };
+  }
+}
+
+/**
+ * The images a Photo Link can be switched to: those in the folder it links
+ * to, or in the folder of the image it links to
+ */
+export async function listPhotoLinkImages(accessToken: string, photoLink: string): Promise<DriveImage[]> {
+  let folderId = extractDriveFolderId(photoLink);
+  if (!folderId) {
+    const fileId = extractDriveFileId(photoLink);
+    folderId = fileId ? await getParentFolderId(accessToken, fileId) : null;
+  }
+  if (!folderId) {
+    throw new Error(`Photo Link is not a Drive file or folder: ${photoLink}`);
+  }
+  return listImagesInFolder(accessToken, folderId);
+}
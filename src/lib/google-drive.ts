@@ -1,5 +1,5 @@
 import { google } from 'googleapis';
-import { Document } from '@/types';
+import { Document, DriveImage } from '@/types';
 
 const SCOPES = ['https://www.googleapis.com/auth/drive.readonly'];
 
@@ -44,29 +44,25 @@ export async function listDocuments(accessToken: string): Promise<Document[]> {
   }));
 }
 
+/**
+ * Gets a file's content: Google Docs are exported as HTML, other files
+ * (Word, PDF, Markdown, ...) are downloaded as they are
+ */
 export async function getDocumentContent(
   accessToken: string,
   fileId: string,
   mimeType: string
-): Promise<string> {
-  const drive = await getDriveClient(accessToken);
-
-  // Handle Google Docs - export as plain text
-  if (mimeType === 'application/vnd.google-apps.document') {
-    const response = await drive.files.export({
-      fileId,
-      mimeType: 'text/html',
-    });
-    return response.data as string;
+): Promise<string | Buffer> {
+  if (mimeType !== 'application/vnd.google-apps.document') {
+    return downloadFile(accessToken, fileId);
   }
 
-  // For other files, download the content
-  const response = await drive.files.get(
-    { fileId, alt: 'media' },
-    { responseType: 'arraybuffer' }
-  );
-
-  return Buffer.from(response.data as ArrayBuffer).toString('base64');
+  const drive = await getDriveClient(accessToken);
+  const response = await drive.files.export({
+    fileId,
+    mimeType: 'text/html',
+  });
+  return response.data as string;
 }
 
 export async function downloadFile(
@@ -131,7 +127,7 @@ export async function findImageInFolder(
 
   const response = await drive.files.list({
     q: `'${folderId}' in parents and mimeType contains 'image/' and trashed = false`,
-    fields: 'files(id, name, mimeType)',
+    fields: 'files(id, name, mimeType, modifiedTime, headRevisionId)',
     pageSize: 1,
     orderBy: 'createdTime desc',
   });
@@ -143,13 +139,95 @@ export async function findImageInFolder(
     id: files[0].id!,
     name: files[0].name!,
     mimeType: files[0].mimeType!,
+    modifiedTime: files[0].modifiedTime || undefined,
+    revision: files[0].headRevisionId || files[0].modifiedTime || undefined,
   };
 }
 
+/**
+ * Every image in a Google Drive folder, newest first
+ */
+export async function listImagesInFolder(
+  accessToken: string,
+  folderId: string
+): Promise<DriveImage[]> {
+  const drive = await getDriveClient(accessToken);
+  const images: DriveImage[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = await drive.files.list({
+      q: `'${folderId}' in parents and mimeType contains 'image/' and trashed = false`,
+      fields: 'nextPageToken, files(id, name, mimeType, modifiedTime)',
+      orderBy: 'createdTime desc',
+      pageSize: 100,
+      pageToken,
+    });
+
+    for (const file of response.data.files || []) {
+      images.push({
+        id: file.id!,
+        name: file.name!,
+        mimeType: file.mimeType!,
+        modifiedTime: file.modifiedTime || undefined,
+      });
+    }
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken);
+
+  return images;
+}
+
+/**
+ * The folder a file is in (the first one, for files in several), or null
+ */
+export async function getParentFolderId(
+  accessToken: string,
+  fileId: string
+): Promise<string | null> {
+  const drive = await getDriveClient(accessToken);
+  const response = await drive.files.get({ fileId, fields: 'parents' });
+  return response.data.parents?.[0] || null;
+}
+
+/**
+ * Downloads the thumbnail Drive generated for a file, or null when it has none
+ */
+export async function downloadThumbnail(
+  accessToken: string,
+  fileId: string
+): Promise<{ data: Buffer; mimeType: string } | null> {
+  const drive = await getDriveClient(accessToken);
+  const response = await drive.files.get({ fileId, fields: 'thumbnailLink' });
+  if (!response.data.thumbnailLink) return null;
+
+  // The link is short-lived and needs the user's token for private files
+  const thumbnail = await fetch(response.data.thumbnailLink, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!thumbnail.ok) return null;
+
+  return {
+    data: Buffer.from(await thumbnail.arrayBuffer()),
+    mimeType: thumbnail.headers.get('content-type') || 'image/jpeg',
+  };
+}
+
+/**
+ * A link to a Drive file that extractDriveFileId reads back
+ */
+export function getDriveFileLink(fileId: string): string {
+  return `https://drive.google.com/file/d/${fileId}/view`;
+}
+
 export interface DriveFileMetadata {
   id: string;
   name: string;
   mimeType: string;
+  modifiedTime?: string;
+  // Identifies the file's current content: the head revision for uploaded
+  // files, the modified time for Google Docs (which have no head revision)
+  revision?: string;
 }
 
 /**
@@ -163,12 +241,43 @@ export async function getFileMetadata(
 
   const response = await drive.files.get({
     fileId,
-    fields: 'id, name, mimeType',
+    fields: 'id, name, mimeType, modifiedTime, headRevisionId',
   });
 
   return {
     id: response.data.id!,
     name: response.data.name!,
     mimeType: response.data.mimeType!,
+    modifiedTime: response.data.modifiedTime || undefined,
+    revision: response.data.headRevisionId || response.data.modifiedTime || undefined,
   };
 }
+
+// Drive requests made at once by getFilesMetadata
+const METADATA_BATCH_SIZE = 10;
+
+/**
+ * Gets metadata for several files, a few requests at a time. Files that
+ * can't be read (deleted, no access) are left out of the result.
+ */
+export async function getFilesMetadata(
+  accessToken: string,
+  fileIds: string[]
+): Promise<Map<string, DriveFileMetadata>> {
+  const files = new Map<string, DriveFileMetadata>();
+  const ids = Array.from(new Set(fileIds));
+
+  for (let i = 0; i < ids.length; i += METADATA_BATCH_SIZE) {
+    const batch = ids.slice(i, i + METADATA_BATCH_SIZE);
+    const results = await Promise.allSettled(batch.map((id) => getFileMetadata(accessToken, id)));
+    results.forEach((result, j) => {
+      if (result.status === 'fulfilled') {
+        files.set(batch[j], result.value);
+      } else {
+        console.warn(`Could not read Drive metadata for ${batch[j]}:`, result.reason);
+      }
+    });
+  }
+
+  return files;
+}
@@ -1,29 +1,156 @@
 import { google } from 'googleapis';
-import { getGoogleAuth } from './google-drive';
-import { Document } from '@/types';
+import { extractDriveFileId, getGoogleAuth } from './google-drive';
+import { parseCategoryList } from './categories';
+import { Document, MetadataSources } from '@/types';
 
 // Sheet ID from environment
 const SHEET_ID = process.env.GOOGLE_SHEETS_ID || '1L5KUiI3d0Wx-drx17Jq_xBSTUTSI9rqIxvAxnFrjCpo';
 
-// Column mapping for "CommonCents Content Repo"
-// A=Blog Post (name), B=Title, C=Category, D=Meta Title, E=Meta Description,
-// F=Slug, G=Primary Keyword, H=Featured Image Alt, I=Status, J=Post Date,
-// K=Blog Link (Drive doc URL), L=Photo Link, M=WordPress ID
+// Fields read from the "CommonCents Content Repo" sheet. Columns are located
+// by their header in row 1, so the column order in the sheet doesn't matter.
 export interface SheetRow {
   rowIndex: number;      // 1-based row index in sheet (for updates)
-  blogPost: string;      // Column A - document name in Drive
-  title: string;         // Column B
-  category: string;      // Column C
-  metaTitle: string;     // Column D
-  metaDescription: string; // Column E
-  slug: string;          // Column F
-  primaryKeyword: string; // Column G
-  featuredImageAlt: string; // Column H
-  status: string;        // Column I
-  postDate: string;      // Column J
-  blogLink: string;      // Column K
-  photoLink: string;     // Column L - Google Drive link to featured image
-  wordpressId: string;   // Column M - WordPress post ID
+  blogPost: string;      // "Blog Post" - document name in Drive
+  title: string;         // "Title"
+  category: string;      // "Category"
+  metaTitle: string;     // "Meta Title"
+  metaDescription: string; // "Meta Description"
+  slug: string;          // "Slug"
+  primaryKeyword: string; // "Primary Keyword"
+  featuredImageAlt: string; // "Featured Image Alt"
+  featuredImageCaption: string; // "Featured Image Caption"
+  status: string;        // "Status"
+  postDate: string;      // "Post Date"
+  blogLink: string;      // "Blog Link" - Google Drive link to the document
+  photoLink: string;     // "Photo Link" - Google Drive link to featured image
+  sites: string;         // "Sites" - WordPress sites to publish to, comma-separated; blank = the first configured site
+  wordpressId: string;   // "WordPress ID" - post ID on the first target site
+  liveUrl: string;       // "Live URL" - permalink of that post
+  productionId: string;  // "Production ID" - post ID on production after promotion from staging
+  productionUrl: string; // "Production URL" - permalink of the production post
+  publishedAt: string;   // "Published At" - when WordPress published the post
+  lastError: string;     // "Last Error" - error from the most recent failed attempt
+  lastAttempt: string;   // "Last Attempt" - when publishing was last attempted
+}
+
+// Status written to the sheet when publishing a row fails
+export const SHEET_ERROR_STATUS = 'Error';
+
+export type SheetField = Exclude<keyof SheetRow, 'rowIndex'>;
+
+// Default header for each field; override with GOOGLE_SHEETS_COLUMNS, e.g.
+// GOOGLE_SHEETS_COLUMNS='{"wordpressId":"WP Post ID","blogLink":"Doc URL"}'
+const DEFAULT_COLUMN_HEADERS: Record<SheetField, string> = {
+  blogPost: 'Blog Post',
+  title: 'Title',
+  category: 'Category',
+  metaTitle: 'Meta Title',
+  metaDescription: 'Meta Description',
+  slug: 'Slug',
+  primaryKeyword: 'Primary Keyword',
+  featuredImageAlt: 'Featured Image Alt',
+  featuredImageCaption: 'Featured Image Caption',
+  status: 'Status',
+  postDate: 'Post Date',
+  blogLink: 'Blog Link',
+  photoLink: 'Photo Link',
+  sites: 'Sites',
+  wordpressId: 'WordPress ID',
+  liveUrl: 'Live URL',
+  productionId: 'Production ID',
+  productionUrl: 'Production URL',
+  publishedAt: 'Published At',
+  lastError: 'Last Error',
+  lastAttempt: 'Last Attempt',
+};
+
+// Columns the app can't work without: rows are identified through these, and
+// every publish attempt writes its result back to the last five
+const REQUIRED_FIELDS: SheetField[] = [
+  'blogPost', 'title', 'status', 'blogLink',
+  'wordpressId', 'liveUrl', 'publishedAt', 'lastError', 'lastAttempt',
+];
+
+// 0-based column index per field; optional fields missing from the sheet are absent
+export type SheetColumnMap = Partial<Record<SheetField, number>>;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+function getColumnHeaders(): Record<SheetField, string> {
+  const configured = process.env.GOOGLE_SHEETS_COLUMNS;
+  if (!configured) return DEFAULT_COLUMN_HEADERS;
+
+  let overrides: Record<string, unknown>;
+  try {
+    overrides = JSON.parse(configured);
+  } catch {
+    throw new Error('GOOGLE_SHEETS_COLUMNS must be a JSON object mapping fields to header names');
+  }
+
+  const headers = { ...DEFAULT_COLUMN_HEADERS };
+  for (const [field, header] of Object.entries(overrides)) {
+    if (!(field in DEFAULT_COLUMN_HEADERS)) {
+      throw new Error(`GOOGLE_SHEETS_COLUMNS: unknown field "${field}"`);
+    }
+    if (typeof header !== 'string' || !header.trim()) {
+      throw new Error(`GOOGLE_SHEETS_COLUMNS: header for "${field}" must be a non-empty string`);
+    }
+    headers[field as SheetField] = header;
+  }
+  return headers;
+}
+
+/**
+ * Resolves each field to its column from the header row. Throws when a
+ * required header is missing or a header appears more than once, rather
+ * than guessing and writing into the wrong column.
+ */
+export function resolveSheetColumns(headerRow: string[]): SheetColumnMap {
+  const headers = getColumnHeaders();
+  const positions = new Map<string, number[]>();
+  headerRow.forEach((header, index) => {
+    const key = normalizeHeader(String(header ?? ''));
+    if (key) positions.set(key, [...(positions.get(key) || []), index]);
+  });
+
+  const columns: SheetColumnMap = {};
+  const missing: string[] = [];
+
+  for (const field of Object.keys(headers) as SheetField[]) {
+    const matches = positions.get(normalizeHeader(headers[field])) || [];
+    if (matches.length > 1) {
+      throw new Error(
+        `Content Repo header "${headers[field]}" appears in more than one column (${matches.map(columnLetter).join(', ')})`
+      );
+    }
+    if (matches.length === 1) {
+      columns[field] = matches[0];
+    } else if (REQUIRED_FIELDS.includes(field)) {
+      missing.push(`"${headers[field]}"`);
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Content Repo sheet is missing required column header${missing.length === 1 ? '' : 's'} ${missing.join(', ')} in row 1. ` +
+      `Found: ${headerRow.filter(Boolean).map((h) => `"${h}"`).join(', ') || 'no headers'}`
+    );
+  }
+
+  return columns;
+}
+
+/**
+ * Converts a 0-based column index to its A1 letter (0 → A, 26 → AA)
+ */
+function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
 }
 
 async function getSheetsClient(accessToken: string) {
@@ -38,66 +165,99 @@ async function getSheetsClient(accessToken: string) {
 export async function getContentRepoData(accessToken: string): Promise<SheetRow[]> {
   const sheets = await getSheetsClient(accessToken);
 
+  let rows: string[][];
   try {
     const response = await sheets.spreadsheets.values.get({
       spreadsheetId: SHEET_ID,
-      range: 'A:M', // Columns A through M
+      range: 'A:ZZ',
     });
 
-    const rows = response.data.values || [];
-
-    // Skip header row (index 0)
-    if (rows.length <= 1) {
-      return [];
-    }
-
-    return rows.slice(1).map((row, index) => ({
-      rowIndex: index + 2, // +2 because we skip header (1) and arrays are 0-indexed
-      blogPost: row[0] || '',
-      title: row[1] || '',
-      category: row[2] || '',
-      metaTitle: row[3] || '',
-      metaDescription: row[4] || '',
-      slug: row[5] || '',
-      primaryKeyword: row[6] || '',
-      featuredImageAlt: row[7] || '',
-      status: row[8] || '',
-      postDate: row[9] || '',
-      blogLink: row[10] || '',
-      photoLink: row[11] || '',
-      wordpressId: row[12] || '',
-    }));
+    rows = response.data.values || [];
   } catch (error) {
     console.error('Error fetching sheet data:', error);
     throw new Error('Failed to fetch data from Google Sheets. Make sure you have access to the Content Repo.');
   }
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const columns = resolveSheetColumns(rows[0]);
+  const cell = (row: string[], field: SheetField) => {
+    const index = columns[field];
+    return index === undefined ? '' : row[index] || '';
+  };
+
+  return rows.slice(1).map((row, index) => ({
+    rowIndex: index + 2, // +2 because we skip header (1) and arrays are 0-indexed
+    blogPost: cell(row, 'blogPost'),
+    title: cell(row, 'title'),
+    category: cell(row, 'category'),
+    metaTitle: cell(row, 'metaTitle'),
+    metaDescription: cell(row, 'metaDescription'),
+    slug: cell(row, 'slug'),
+    primaryKeyword: cell(row, 'primaryKeyword'),
+    featuredImageAlt: cell(row, 'featuredImageAlt'),
+    featuredImageCaption: cell(row, 'featuredImageCaption'),
+    status: cell(row, 'status'),
+    postDate: cell(row, 'postDate'),
+    blogLink: cell(row, 'blogLink'),
+    photoLink: cell(row, 'photoLink'),
+    sites: cell(row, 'sites'),
+    wordpressId: cell(row, 'wordpressId'),
+    liveUrl: cell(row, 'liveUrl'),
+    productionId: cell(row, 'productionId'),
+    productionUrl: cell(row, 'productionUrl'),
+    publishedAt: cell(row, 'publishedAt'),
+    lastError: cell(row, 'lastError'),
+    lastAttempt: cell(row, 'lastAttempt'),
+  }));
 }
 
 /**
- * Updates a row's status and WordPress ID after publishing
- * Column I = Status, Column M = WordPress ID
+ * Reads the header row and resolves the current column layout
  */
-export async function updateRowAfterPublish(
+async function getSheetColumns(sheets: Awaited<ReturnType<typeof getSheetsClient>>): Promise<SheetColumnMap> {
+  const response = await sheets.spreadsheets.values.get({
+    spreadsheetId: SHEET_ID,
+    range: '1:1',
+  });
+
+  return resolveSheetColumns(response.data.values?.[0] || []);
+}
+
+/**
+ * Writes values into a row, locating each field's column from the header row.
+ * Throws, writing nothing, when a column for one of the values is missing.
+ */
+async function writeRowFields(
   accessToken: string,
   rowIndex: number,
-  status: string,
-  wordpressId: number
+  values: Partial<Record<SheetField, string>>
 ): Promise<void> {
   const sheets = await getSheetsClient(accessToken);
+  const columns = await getSheetColumns(sheets);
 
-  try {
-    // Update columns I (status) and M (WordPress ID)
-    const updates: { range: string; values: string[][] }[] = [
-      {
-        range: `I${rowIndex}`,
-        values: [[status]],
-      },
-      {
-        range: `M${rowIndex}`,
-        values: [[wordpressId.toString()]],
-      },
-    ];
+  const updates: { range: string; values: string[][] }[] = [];
+  const missing: SheetField[] = [];
+  for (const [field, value] of Object.entries(values) as [SheetField, string][]) {
+    const column = columns[field];
+    if (column === undefined) {
+      missing.push(field);
+    } else {
+      updates.push({ range: `${columnLetter(column)}${rowIndex}`, values: [[value]] });
+    }
+  }
+
+  if (missing.length > 0) {
+    const headers = getColumnHeaders();
+    throw new Error(
+      `Content Repo sheet has no column for ${missing.map((field) => `"${headers[field]}"`).join(', ')}; ` +
+      `add ${missing.length === 1 ? 'it' : 'them'} to row 1 so row ${rowIndex} can be updated`
+    );
+  }
 
+  try {
     await sheets.spreadsheets.values.batchUpdate({
       spreadsheetId: SHEET_ID,
       requestBody: {
@@ -105,14 +265,117 @@ export async function updateRowAfterPublish(
         data: updates,
       },
     });
-
-    console.log(`Updated sheet row ${rowIndex}: status="${status}", wpId=${wordpressId}`);
   } catch (error) {
     console.error('Error updating sheet:', error);
     throw new Error('Failed to update Content Repo sheet');
   }
 }
 
+/**
+ * Updates a row after publishing: status, WordPress ID, live URL and publish
+ * time. Clears the last error and stamps the attempt time.
+ */
+export async function updateRowAfterPublish(
+  accessToken: string,
+  rowIndex: number,
+  status: string,
+  wordpressId: number,
+  details: { postUrl?: string; publishedAt?: string } = {}
+): Promise<void> {
+  await writeRowFields(accessToken, rowIndex, {
+    status,
+    wordpressId: wordpressId.toString(),
+    ...(details.postUrl ? { liveUrl: details.postUrl } : {}),
+    ...(details.publishedAt ? { publishedAt: details.publishedAt } : {}),
+    lastError: '',
+    lastAttempt: new Date().toISOString(),
+  });
+
+  console.log(`Updated sheet row ${rowIndex}: status="${status}", wpId=${wordpressId}`);
+}
+
+/**
+ * Saves the featured image picked for a row in its Photo Link column
+ */
+export async function updateRowPhotoLink(
+  accessToken: string,
+  rowIndex: number,
+  photoLink: string
+): Promise<void> {
+  await writeRowFields(accessToken, rowIndex, { photoLink });
+  console.log(`Updated sheet row ${rowIndex}: photoLink="${photoLink}"`);
+}
+
+// Status written to the sheet once a row's staging post is promoted to production
+export const SHEET_PROMOTED_STATUS = 'Live';
+
+/**
+ * Updates a row after its staging post was promoted: status, production post
+ * ID and URL. The WordPress ID and Live URL columns keep the staging post.
+ */
+export async function updateRowAfterPromotion(
+  accessToken: string,
+  rowIndex: number,
+  productionId: number,
+  productionUrl?: string
+): Promise<void> {
+  await writeRowFields(accessToken, rowIndex, {
+    status: SHEET_PROMOTED_STATUS,
+    productionId: productionId.toString(),
+    ...(productionUrl ? { productionUrl } : {}),
+    lastError: '',
+    lastAttempt: new Date().toISOString(),
+  });
+
+  console.log(`Updated sheet row ${rowIndex}: status="${SHEET_PROMOTED_STATUS}", productionId=${productionId}`);
+}
+
+/**
+ * Marks a row as failed so the content team can triage from the sheet
+ */
+export async function updateRowAfterError(
+  accessToken: string,
+  rowIndex: number,
+  error: string
+): Promise<void> {
+  await writeRowFields(accessToken, rowIndex, {
+    status: SHEET_ERROR_STATUS,
+    // Keep the cell readable; full details are in the logs and publish history
+    lastError: error.length > 500 ? `${error.slice(0, 497)}...` : error,
+    lastAttempt: new Date().toISOString(),
+  });
+
+  console.log(`Updated sheet row ${rowIndex}: status="${SHEET_ERROR_STATUS}", error="${error}"`);
+}
+
+/**
+ * Site names from the row's Sites column; undefined when blank
+ */
+export function parseSites(row: SheetRow): string[] | undefined {
+  const sites = row.sites.split(',').map((site) => site.trim().toLowerCase()).filter(Boolean);
+  return sites.length > 0 ? sites : undefined;
+}
+
+/**
+ * Records which metadata fields the sheet row actually provides
+ */
+export function getSheetMetadataSources(row: SheetRow): MetadataSources {
+  const sources: MetadataSources = {};
+
+  if (row.title) sources.title = 'sheet';
+  if (row.slug) sources.slug = 'sheet';
+  if (row.category) sources.categories = 'sheet';
+  if (row.metaTitle) sources.seoTitle = 'sheet';
+  if (row.metaDescription) {
+    sources.description = 'sheet';
+    sources.excerpt = 'sheet';
+    sources.seoDescription = 'sheet';
+  }
+  if (row.primaryKeyword) sources.tags = 'sheet';
+
+  return sources;
+}
+
 /**
  * Converts sheet rows to Document objects for admin listing
  */
@@ -124,7 +387,9 @@ export function sheetRowsToDocuments(rows: SheetRow[]): Document[] {
       let status: Document['status'] = 'pending';
       const sheetStatus = row.status.toLowerCase().replace(/\s+/g, '');
 
-      if (row.wordpressId || sheetStatus === 'published' || sheetStatus === 'posted' || sheetStatus === 'live') {
+      if (sheetStatus === SHEET_ERROR_STATUS.toLowerCase()) {
+        status = 'error';
+      } else if (row.wordpressId || sheetStatus === 'published' || sheetStatus === 'posted' || sheetStatus === 'live') {
         status = 'published';
       } else if (sheetStatus === 'draft') {
         status = 'processed';
@@ -137,25 +402,32 @@ export function sheetRowsToDocuments(rows: SheetRow[]): Document[] {
         name: row.blogPost || row.title,
         mimeType: 'application/vnd.google-apps.document', // Assume Google Doc
         createdTime: row.postDate ? new Date(row.postDate).toISOString() : new Date().toISOString(),
+        // Replaced by the Drive file's modified time when the document list is loaded
         modifiedTime: row.postDate ? new Date(row.postDate).toISOString() : new Date().toISOString(),
         status,
+        driveFileId: extractDriveFileId(row.blogLink) || undefined,
         wpPostId: row.wordpressId ? parseInt(row.wordpressId) : undefined,
-        wpPostUrl: row.blogLink || undefined,
+        wpPostUrl: row.liveUrl || undefined,
+        wpPublishedAt: row.publishedAt || undefined,
+        targetSites: parseSites(row),
+        error: row.lastError || undefined,
         // Store sheet row data for later use
         metadata: {
           title: row.title,
           slug: row.slug,
           description: row.metaDescription,
           excerpt: row.metaDescription,
-          category: row.category || 'General',
+          categories: row.category ? parseCategoryList(row.category) : ['General'],
           tags: row.primaryKeyword ? [row.primaryKeyword] : [],
           author: 'CommonCents Team',
           publishDate: new Date().toISOString().split('T')[0],
           seoTitle: row.metaTitle,
           seoDescription: row.metaDescription,
           photoLink: row.photoLink,
+          featuredImageAlt: row.featuredImageAlt || undefined,
+          featuredImageCaption: row.featuredImageCaption || undefined,
           format: 'standard',
-          metadataSource: 'sheet',
+          metadataSources: getSheetMetadataSources(row),
         },
         // Store row index for updates
         sheetRowIndex: row.rowIndex,
@@ -177,7 +449,7 @@ function normalizeForComparison(str: string): string {
 
 /**
  * Finds a sheet row matching the document name
- * Matches against Column A (Blog Post) or Column B (Title)
+ * Matches against the Blog Post or Title column
  */
 export async function findRowByDocumentName(
   accessToken: string,
@@ -186,7 +458,7 @@ export async function findRowByDocumentName(
   const rows = await getContentRepoData(accessToken);
   const normalizedName = normalizeForComparison(documentName);
 
-  // First try exact match on blogPost (Column A)
+  // First try exact match on blogPost
   let match = rows.find(
     (row) => normalizeForComparison(row.blogPost) === normalizedName
   );
@@ -195,7 +467,7 @@ export async function findRowByDocumentName(
     return match;
   }
 
-  // Then try matching on title (Column B)
+  // Then try matching on title
   match = rows.find(
     (row) => normalizeForComparison(row.title) === normalizedName
   );
@@ -231,21 +503,25 @@ export async function findRowByDocumentName(
 export function sheetRowToMetadata(row: SheetRow): Partial<{
   title: string;
   slug: string;
-  category: string;
+  categories: string[];
   seoTitle: string;
   seoDescription: string;
   tags: string[];
   photoLink: string;
+  featuredImageAlt: string;
+  featuredImageCaption: string;
 }> {
   const metadata: Record<string, any> = {};
 
   if (row.title) metadata.title = row.title;
   if (row.slug) metadata.slug = row.slug;
-  if (row.category) metadata.category = row.category;
+  if (row.category) metadata.categories = parseCategoryList(row.category);
   if (row.metaTitle) metadata.seoTitle = row.metaTitle;
   if (row.metaDescription) metadata.seoDescription = row.metaDescription;
   if (row.primaryKeyword) metadata.tags = [row.primaryKeyword];
   if (row.photoLink) metadata.photoLink = row.photoLink;
+  if (row.featuredImageAlt) metadata.featuredImageAlt = row.featuredImageAlt;
+  if (row.featuredImageCaption) metadata.featuredImageCaption = row.featuredImageCaption;
 
   return metadata;
 }
@@ -0,0 +1,138 @@
+import type { CheerioAPI, Cheerio } from 'cheerio/slim';
+import { isTag, isText, type AnyNode, type Element } from 'domhandler';
+import { loadHtml } from './html-sanitizer';
+
+/**
+ * Wraps markup in a serialized block comment pair, e.g.
+ * <!-- wp:heading {"level":3} -->...<!-- /wp:heading -->
+ */
+function block(name: string, inner: string, attrs?: Record<string, unknown>): string {
+  const attrJson = attrs && Object.keys(attrs).length > 0 ? ` ${JSON.stringify(attrs)}` : '';
+  return `<!-- wp:${name}${attrJson} -->\n${inner}\n<!-- /wp:${name} -->`;
+}
+
+function paragraphBlock(innerHtml: string): string {
+  return block('paragraph', `<p>${innerHtml}</p>`);
+}
+
+function imageBlock($: CheerioAPI, img: Cheerio<Element>, caption?: string): string {
+  const src = img.attr('src') || '';
+  const alt = img.attr('alt') || '';
+  const $img = $('<img>').attr('src', src).attr('alt', alt);
+  const figcaption = caption ? `<figcaption class="wp-element-caption">${caption}</figcaption>` : '';
+  return block('image', `<figure class="wp-block-image">${$.html($img)}${figcaption}</figure>`);
+}
+
+function listBlock($: CheerioAPI, list: Element): string {
+  const ordered = list.name === 'ol';
+  const start = ordered ? parseInt($(list).attr('start') || '', 10) : NaN;
+
+  const items = $(list)
+    .children('li')
+    .toArray()
+    .map((li) => {
+      const nested = $(li).children('ul, ol').toArray();
+      $(li).children('ul, ol').remove();
+      const nestedBlocks = nested.map((child) => listBlock($, child)).join('\n');
+      const inner = nestedBlocks ? `${$(li).html()}${nestedBlocks}` : $(li).html();
+      return block('list-item', `<li>${inner}</li>`);
+    })
+    .join('\n');
+
+  const attrs: Record<string, unknown> = {};
+  if (ordered) attrs.ordered = true;
+  if (!isNaN(start) && start !== 1) attrs.start = start;
+
+  const startAttr = attrs.start ? ` start="${start}"` : '';
+  return block('list', `<${list.name} class="wp-block-list"${startAttr}>${items}</${list.name}>`, attrs);
+}
+
+function quoteBlock($: CheerioAPI, quote: Element): string {
+  const inner = $(quote).contents().toArray();
+  const hasBlocks = inner.some((node) => isTag(node) && /^(p|h[1-6]|ul|ol)$/.test(node.name));
+  const innerBlocks = hasBlocks
+    ? inner.filter(isTag).map((el) => toBlock($, el)).join('\n')
+    : paragraphBlock($(quote).html() || '');
+  return block('quote', `<blockquote class="wp-block-quote">${innerBlocks}</blockquote>`);
+}
+
+function toBlock($: CheerioAPI, el: Element): string {
+  const $el = $(el);
+
+  switch (el.name) {
+    case 'p': {
+      // A paragraph holding nothing but an image becomes an image block
+      const children = $el.contents().toArray();
+      if (children.length === 1 && isTag(children[0]) && children[0].name === 'img') {
+        return imageBlock($, $el.children('img'));
+      }
+      return paragraphBlock($el.html() || '');
+    }
+
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const level = parseInt(el.name[1], 10);
+      const html = `<${el.name} class="wp-block-heading">${$el.html()}</${el.name}>`;
+      return block('heading', html, level === 2 ? undefined : { level });
+    }
+
+    case 'ul':
+    case 'ol':
+      return listBlock($, el);
+
+    case 'img':
+      return imageBlock($, $el);
+
+    case 'figure': {
+      const img = $el.find('img').first();
+      if (img.length > 0) {
+        return imageBlock($, img, $el.children('figcaption').html() || undefined);
+      }
+      const table = $el.find('table').first();
+      if (table.length > 0) return toBlock($, table.get(0)!);
+      break;
+    }
+
+    case 'table':
+      return block('table', `<figure class="wp-block-table">${$.html($el)}</figure>`);
+
+    case 'blockquote':
+      return quoteBlock($, el);
+
+    case 'hr':
+      return block('separator', '<hr class="wp-block-separator has-alpha-channel-opacity"/>');
+
+    case 'pre': {
+      const code = $el.children('code').length === 1 ? $el.children('code').html() : $el.html();
+      return block('code', `<pre class="wp-block-code"><code>${code}</code></pre>`);
+    }
+  }
+
+  // Anything without a dedicated block is kept verbatim in a Custom HTML block
+  return block('html', $.html($el));
+}
+
+/**
+ * Converts cleaned (sanitized) HTML into serialized Gutenberg block markup so
+ * posts open in the block editor as native blocks instead of one Classic block.
+ */
+export function htmlToBlocks(html: string): string {
+  const $ = loadHtml(html, false);
+  const blocks: string[] = [];
+
+  $.root()
+    .contents()
+    .each((_, node: AnyNode) => {
+      if (isTag(node)) {
+        blocks.push(toBlock($, node));
+      } else if (isText(node) && node.data.trim()) {
+        blocks.push(paragraphBlock($.html(node).trim()));
+      }
+    });
+
+  return blocks.join('\n\n');
+}
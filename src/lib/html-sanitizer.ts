@@ -0,0 +1,322 @@
+import { load, type CheerioAPI, type Cheerio } from 'cheerio/slim';
+import { isTag, isText, type AnyNode, type Element } from 'domhandler';
+
+export interface SanitizeOptions {
+  allowedTags?: string[];
+  allowedAttributes?: Record<string, string[]>;
+  // Elements removed together with their content before sanitizing (e.g. '.title')
+  removeSelectors?: string[];
+  // Convert bold/italic/etc. inline and class styles into semantic tags (default: true)
+  mapInlineStyles?: boolean;
+}
+
+export const DEFAULT_ALLOWED_TAGS = [
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'br', 'hr',
+  'strong', 'em', 'sup', 'sub', 'code', 'pre', 'a',
+  'ul', 'ol', 'li', 'blockquote',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  'img', 'figure', 'figcaption',
+];
+
+export const DEFAULT_ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  img: ['src', 'alt', 'title'],
+  ol: ['start'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan', 'scope'],
+};
+
+// Dropped entirely, content included
+const REMOVED_TAGS = ['head', 'title', 'meta', 'link', 'style', 'script', 'noscript', 'template', 'iframe', 'object', 'embed', 'svg'];
+
+// Schemes links and images may use; URLs without a scheme are relative
+const SAFE_URL_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+
+// Renamed to their semantic equivalent before the allow-list is applied
+const TAG_ALIASES: Record<string, string> = { b: 'strong', i: 'em' };
+
+const BLOCK_TAGS = [
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'ul', 'ol', 'li', 'blockquote',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'figure', 'figcaption', 'div', 'pre',
+];
+
+// Elements that may legitimately be empty
+const VOID_CONTENT_TAGS = ['br', 'hr', 'img', 'td', 'th'];
+
+const MONOSPACE_FONTS = /courier|consolas|monaco|menlo|mono/i;
+
+type Declarations = Record<string, string>;
+
+/**
+ * Parses HTML with htmlparser2 in HTML mode. Output keeps UTF-8 characters
+ * as-is instead of numeric entities (only & < > " are escaped).
+ */
+export function loadHtml(html: string, isDocument = true): CheerioAPI {
+  return load(html, { xml: { xmlMode: false, encodeEntities: 'utf8' } }, isDocument);
+}
+
+function parseDeclarations(style: string): Declarations {
+  const declarations: Declarations = {};
+  for (const part of style.split(';')) {
+    const colonIndex = part.indexOf(':');
+    if (colonIndex > 0) {
+      declarations[part.slice(0, colonIndex).trim().toLowerCase()] = part.slice(colonIndex + 1).trim().toLowerCase();
+    }
+  }
+  return declarations;
+}
+
+/**
+ * Google Docs exports put character formatting on generated classes
+ * (`.c3{font-weight:700}`), so collect single-class rules from <style> blocks
+ */
+function parseClassStyles(css: string): Map<string, Declarations> {
+  const classStyles = new Map<string, Declarations>();
+  const rulePattern = /\.([a-zA-Z0-9_-]+)\s*\{([^}]*)\}/g;
+
+  for (const match of Array.from(css.matchAll(rulePattern))) {
+    classStyles.set(match[1], { ...classStyles.get(match[1]), ...parseDeclarations(match[2]) });
+  }
+
+  return classStyles;
+}
+
+function getDeclarations(el: Element, classStyles: Map<string, Declarations>): Declarations {
+  const declarations: Declarations = {};
+  for (const className of (el.attribs.class || '').split(/\s+/)) {
+    Object.assign(declarations, classStyles.get(className));
+  }
+  return Object.assign(declarations, parseDeclarations(el.attribs.style || ''));
+}
+
+function isBold(weight: string | undefined): boolean {
+  if (!weight) return false;
+  if (weight === 'bold' || weight === 'bolder') return true;
+  return parseInt(weight, 10) >= 600;
+}
+
+/**
+ * Wraps the content of styled spans in the matching semantic tags
+ */
+function mapInlineStyles($: CheerioAPI, root: Cheerio<AnyNode>, classStyles: Map<string, Declarations>) {
+  root.find('span').each((_, el) => {
+    // Headings and header cells are already bold; keep them free of redundant <strong>
+    if ($(el).closest('h1, h2, h3, h4, h5, h6, th').length > 0) return;
+
+    const declarations = getDeclarations(el, classStyles);
+    const $el = $(el);
+
+    if (MONOSPACE_FONTS.test(declarations['font-family'] || '')) $el.wrapInner('<code></code>');
+    if (declarations['vertical-align'] === 'super') $el.wrapInner('<sup></sup>');
+    if (declarations['vertical-align'] === 'sub') $el.wrapInner('<sub></sub>');
+    if (declarations['font-style'] === 'italic') $el.wrapInner('<em></em>');
+    if (isBold(declarations['font-weight'])) $el.wrapInner('<strong></strong>');
+  });
+}
+
+/**
+ * Google Docs exports nested lists as flat sibling lists whose class carries
+ * the nesting level (`lst-kix_abc123-1`). Rebuild the real nesting.
+ */
+function nestGoogleDocsLists($: CheerioAPI, root: Cheerio<AnyNode>) {
+  const lists = new Map<Element, { id: string; level: number }>();
+  root.find('ul, ol').each((_, el) => {
+    const match = (el.attribs.class || '').match(/lst-kix_([a-z0-9]+)-(\d+)/i);
+    if (match) lists.set(el, { id: match[1], level: parseInt(match[2], 10) });
+  });
+
+  const levelOf = (el: Element | undefined, id: string): number | undefined => {
+    const info = el ? lists.get(el) : undefined;
+    return info && info.id === id ? info.level : undefined;
+  };
+
+  lists.forEach(({ id, level }, list) => {
+    const previous = $(list).prev('ul, ol').get(0);
+    if (!previous || levelOf(previous, id) === undefined || levelOf(previous, id)! > level) return;
+
+    // Walk down the last items of the previous list to the deepest list above this level
+    let target: Element = previous;
+    while (levelOf(target, id)! < level) {
+      const nested: Element | undefined = $(target).children('li').last().children('ul, ol').last().get(0);
+      const nestedLevel = levelOf(nested, id);
+      if (!nested || nestedLevel === undefined || nestedLevel > level) break;
+      target = nested;
+    }
+
+    if (levelOf(target, id) === level) {
+      // Continuation of the same list at the same level - merge the items
+      if (target.name === list.name) {
+        $(target).append($(list).children('li'));
+        $(list).remove();
+      }
+    } else {
+      const lastItem = $(target).children('li').last();
+      if (lastItem.length > 0) lastItem.append(list);
+    }
+  });
+}
+
+/**
+ * Google Docs routes links through google.com/url?q=...; restore the real
+ * target, unwrapping until it is no longer a redirect (they can be nested)
+ */
+function unwrapRedirectLink(href: string): string {
+  for (let depth = 0; depth < 10; depth++) {
+    const match = href.match(/^https?:\/\/(?:www\.)?google\.com\/url\?(.*)$/i);
+    const target = match && new URLSearchParams(match[1]).get('q');
+    if (!target || target === href) return href;
+    href = target;
+  }
+  return href;
+}
+
+/**
+ * Browsers ignore control characters and spaces inside a scheme ("jav\tascript:"),
+ * so they are stripped before it is checked against the allow-list
+ */
+function isSafeUrl(url: string): boolean {
+  const scheme = url.replace(/[\x00-\x20]/g, '').match(/^([^/?#]*?):/)?.[1];
+  return scheme === undefined || SAFE_URL_SCHEMES.includes(scheme.toLowerCase());
+}
+
+function hasInlineContentOnly($: CheerioAPI, el: Element): boolean {
+  return $(el).children(BLOCK_TAGS.join(', ')).length === 0;
+}
+
+function sanitizeElement(
+  $: CheerioAPI,
+  el: Element,
+  allowedTags: Set<string>,
+  allowedAttributes: Record<string, string[]>
+) {
+  // Sanitize children first so unwrapping never re-exposes unsanitized nodes
+  $(el).children().each((_, child) => sanitizeElement($, child, allowedTags, allowedAttributes));
+
+  const $el = $(el);
+  el.name = TAG_ALIASES[el.name] || el.name;
+
+  if (!allowedTags.has(el.name)) {
+    if (el.name === 'div' && allowedTags.has('p') && hasInlineContentOnly($, el)) {
+      el.name = 'p';
+    } else {
+      $el.replaceWith($el.contents());
+      return;
+    }
+  }
+
+  const keep = allowedAttributes[el.name] || [];
+  for (const name of Object.keys(el.attribs)) {
+    // The scheme is checked on the link's real target, not on a redirect wrapping it
+    const value = name === 'href' ? unwrapRedirectLink(el.attribs[name]) : el.attribs[name];
+    if (!keep.includes(name) || ((name === 'colspan' || name === 'rowspan') && value === '1')) {
+      $el.removeAttr(name);
+    } else if ((name === 'href' || name === 'src') && !isSafeUrl(value)) {
+      // Inline images from Word documents legitimately use data: URIs
+      if (!(name === 'src' && /^data:image\//i.test(value))) $el.removeAttr(name);
+    } else if (value !== el.attribs[name]) {
+      $el.attr(name, value);
+    }
+  }
+
+  if (el.name === 'img' && !el.attribs.src) {
+    $el.remove();
+    return;
+  }
+
+  // Table cells from Google Docs wrap their text in a single paragraph
+  if ((el.name === 'td' || el.name === 'th' || el.name === 'li') && $el.contents().length === 1) {
+    const only = $el.children('p').get(0);
+    if (only) $(only).replaceWith($(only).contents());
+  }
+
+  if (!VOID_CONTENT_TAGS.includes(el.name) && $el.text().trim() === '' && $el.find('img, br, hr').length === 0) {
+    $el.remove();
+  }
+}
+
+function collapseWhitespace($: CheerioAPI, root: Cheerio<AnyNode>) {
+  const visit = (node: AnyNode) => {
+    if (isText(node)) {
+      node.data = node.data.replace(/[ \t\r\n]+/g, ' ');
+    } else if (isTag(node) && node.name !== 'pre') {
+      node.children.forEach(visit);
+    }
+  };
+  root.contents().each((_, node) => visit(node));
+}
+
+function formatBlocks(html: string): string {
+  // Whitespace next to <pre> is part of the preformatted text
+  const tags = BLOCK_TAGS.filter((tag) => tag !== 'pre');
+  const blockTag = `<\\/?(?:${tags.join('|')})\\b[^>]*>`;
+  return html
+    .replace(new RegExp(`(${blockTag})\\s+`, 'gi'), '$1')
+    .replace(new RegExp(`\\s+(${blockTag})`, 'gi'), '$1')
+    .trim();
+}
+
+/**
+ * DOM-based HTML sanitizer. Keeps only allow-listed tags and attributes,
+ * converts Google Docs character styles into semantic tags and restores
+ * nested lists. Top-level blocks are separated by a blank line, which is
+ * what WordPress expects from classic content.
+ */
+export function sanitizeHtml(html: string, options: SanitizeOptions = {}): string {
+  const allowedTags = new Set(options.allowedTags || DEFAULT_ALLOWED_TAGS);
+  const allowedAttributes = options.allowedAttributes || DEFAULT_ALLOWED_ATTRIBUTES;
+
+  const $ = loadHtml(html);
+  const body = $('body');
+  const root: Cheerio<AnyNode> = body.length > 0 ? body : $.root();
+
+  const classStyles = parseClassStyles($('style').text());
+
+  $(REMOVED_TAGS.join(', ')).remove();
+  if (options.removeSelectors?.length) {
+    root.find(options.removeSelectors.join(', ')).remove();
+  }
+
+  // Comments, processing instructions and doctype
+  root.find('*').addBack().contents().filter((_, node) => !isTag(node) && !isText(node)).remove();
+
+  if (options.mapInlineStyles !== false) {
+    mapInlineStyles($, root, classStyles);
+  }
+  nestGoogleDocsLists($, root);
+
+  root.children().each((_, el) => sanitizeElement($, el, allowedTags, allowedAttributes));
+  collapseWhitespace($, root);
+
+  // Separate top-level blocks with a blank line; stray inline content becomes a paragraph
+  const blocks: string[] = [];
+  let inlineRun = '';
+  const flushInline = () => {
+    if (inlineRun.trim()) blocks.push(`<p>${inlineRun.trim()}</p>`);
+    inlineRun = '';
+  };
+
+  root.contents().each((_, node) => {
+    if (isTag(node) && BLOCK_TAGS.includes(node.name)) {
+      flushInline();
+      blocks.push(formatBlocks($.html(node)));
+    } else {
+      inlineRun += $.html(node);
+    }
+  });
+  flushInline();
+
+  return blocks.filter(Boolean).join('\n\n');
+}
+
+/**
+ * Splits sanitized HTML into its top-level blocks (paragraphs, headings,
+ * lists, figures, ...). Stray text between blocks is dropped.
+ */
+export function splitBlocks(html: string): string[] {
+  const $ = loadHtml(html, false);
+  return $.root()
+    .contents()
+    .toArray()
+    .filter(isTag)
+    .map((node) => $.html(node));
+}
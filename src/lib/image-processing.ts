@@ -0,0 +1,143 @@
+import sharp from 'sharp';
+
+export type ImageOutputFormat = 'webp' | 'jpeg' | 'original';
+
+export interface ImageProcessingSettings {
+  maxWidth: number;
+  maxHeight: number;
+  format: ImageOutputFormat;
+  quality: number; // 1-100
+}
+
+export interface ProcessedImage {
+  buffer: Buffer;
+  mimeType: string;
+  filename: string;
+  width?: number;
+  height?: number;
+}
+
+const OUTPUT_FORMATS: ImageOutputFormat[] = ['webp', 'jpeg', 'original'];
+
+// Re-encoding would lose animation or vector data
+const PASSTHROUGH_FORMATS = ['gif', 'svg'];
+
+const FORMAT_MIME_TYPES: Record<string, string> = {
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  tiff: 'image/tiff',
+};
+
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+  avif: 'avif',
+  tiff: 'tiff',
+};
+
+/**
+ * Featured image settings from FEATURED_IMAGE_MAX_WIDTH, _MAX_HEIGHT,
+ * _FORMAT and _QUALITY
+ */
+export function getImageProcessingSettings(): ImageProcessingSettings {
+  const format = (process.env.FEATURED_IMAGE_FORMAT || 'webp').toLowerCase() as ImageOutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`FEATURED_IMAGE_FORMAT must be one of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const quality = parseInt(process.env.FEATURED_IMAGE_QUALITY || '', 10) || 82;
+
+  return {
+    maxWidth: parseInt(process.env.FEATURED_IMAGE_MAX_WIDTH || '', 10) || 1920,
+    maxHeight: parseInt(process.env.FEATURED_IMAGE_MAX_HEIGHT || '', 10) || 1080,
+    format,
+    quality: Math.min(100, Math.max(1, quality)),
+  };
+}
+
+/** Identifies the output of a set of settings, so cached images made with other settings are redone */
+export function describeImageProcessingSettings(settings: ImageProcessingSettings): string {
+  return `${settings.format} q${settings.quality} ${settings.maxWidth}x${settings.maxHeight}`;
+}
+
+function replaceExtension(filename: string, extension: string): string {
+  return `${filename.replace(/\.[^/.]+$/, '') || 'featured-image'}.${extension}`;
+}
+
+/**
+ * Shrinks an image to fit the configured maximum size (never enlarging it)
+ * and re-encodes it as WebP or JPEG. EXIF orientation is applied to the
+ * pixels first; EXIF, GPS and other metadata are then left out of the output.
+ * GIFs and SVGs are returned unchanged.
+ */
+export async function processImage(
+  input: Buffer,
+  filename: string,
+  settings: ImageProcessingSettings = getImageProcessingSettings()
+): Promise<ProcessedImage> {
+  const image = sharp(input, { failOn: 'error' });
+  const { format: inputFormat } = await image.metadata();
+
+  if (!inputFormat || !(inputFormat in FORMAT_MIME_TYPES)) {
+    throw new Error(`Unsupported image format: ${inputFormat || 'unknown'}`);
+  }
+  if (PASSTHROUGH_FORMATS.includes(inputFormat)) {
+    return { buffer: input, mimeType: FORMAT_MIME_TYPES[inputFormat], filename };
+  }
+
+  // 'original' keeps the format but is still resized and stripped
+  const outputFormat = settings.format === 'original' ? inputFormat : settings.format;
+
+  let pipeline = image
+    .rotate()
+    .resize({
+      width: settings.maxWidth,
+      height: settings.maxHeight,
+      fit: 'inside',
+      withoutEnlargement: true,
+    });
+
+  switch (outputFormat) {
+    case 'webp':
+      pipeline = pipeline.webp({ quality: settings.quality });
+      break;
+    case 'jpeg':
+      // JPEG has no transparency
+      pipeline = pipeline.flatten({ background: '#ffffff' }).jpeg({ quality: settings.quality, mozjpeg: true });
+      break;
+    case 'png':
+      pipeline = pipeline.png({ compressionLevel: 9 });
+      break;
+    default:
+      pipeline = pipeline.toFormat(outputFormat as keyof sharp.FormatEnum, { quality: settings.quality });
+  }
+
+  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+
+  return {
+    buffer: data,
+    mimeType: FORMAT_MIME_TYPES[outputFormat],
+    filename: replaceExtension(filename, FORMAT_EXTENSIONS[outputFormat]),
+    width: info.width,
+    height: info.height,
+  };
+}
+
+// Big enough for the document modal preview on high-density screens
+const THUMBNAIL_WIDTH = 480;
+const THUMBNAIL_HEIGHT = 320;
+
+/** A small WebP of the image (the first frame, for animations) for previews */
+export async function createThumbnail(input: Buffer): Promise<{ buffer: Buffer; mimeType: string }> {
+  const buffer = await sharp(input, { failOn: 'error' })
+    .rotate()
+    .resize({ width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT, fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 70 })
+    .toBuffer();
+  return { buffer, mimeType: 'image/webp' };
+}
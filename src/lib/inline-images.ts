@@ -0,0 +1,274 @@
+import crypto from 'crypto';
+import { getSiteProfiles, WordPressClient } from './wordpress';
+import { getStore } from './store';
+
+export interface InlineImagesResult {
+  content: string;
+  uploaded: number;
+  reused: number;
+  errors: string[];
+}
+
+interface ImageSource {
+  buffer: Buffer;
+  mimeType: string;
+}
+
+// Remote images are only fetched from these hosts (and their subdomains): Google
+// Docs exports, the configured WordPress sites and INLINE_IMAGE_HOSTS
+const GOOGLE_IMAGE_HOSTS = ['googleusercontent.com'];
+const MAX_IMAGE_BYTES = (parseInt(process.env.INLINE_IMAGE_MAX_MB || '', 10) || 20) * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 30 * 1000;
+const MAX_REDIRECTS = 3;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+/**
+ * Reads a single attribute value from a raw HTML tag
+ */
+function getAttribute(tag: string, name: string): string {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? (match[1] ?? match[2] ?? '') : '';
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function isAllowedImageUrl(url: URL): boolean {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+
+  const hosts = [
+    ...GOOGLE_IMAGE_HOSTS,
+    ...getSiteProfiles().flatMap((site) => {
+      try {
+        return site.url ? [new URL(site.url).hostname] : [];
+      } catch {
+        return [];
+      }
+    }),
+    ...(process.env.INLINE_IMAGE_HOSTS || '').split(',').map((host) => host.trim().toLowerCase()).filter(Boolean),
+  ];
+  const hostname = url.hostname.toLowerCase();
+  return hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+}
+
+/**
+ * Reads a response body, giving up once it is larger than MAX_IMAGE_BYTES
+ */
+async function readLimited(response: Response): Promise<Buffer> {
+  const declared = parseInt(response.headers.get('content-length') || '', 10);
+  if (declared > MAX_IMAGE_BYTES) {
+    throw new Error(`Image is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_IMAGE_BYTES) {
+      await reader.cancel();
+      throw new Error(`Image is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Loads image bytes from a data: URI (Word documents) or a remote URL
+ * (Google Docs exports use short-lived googleusercontent.com links). Remote
+ * images, and every redirect on the way, must be on an allowed host.
+ */
+async function loadImage(src: string): Promise<ImageSource> {
+  const dataUri = src.match(/^data:([^;,]+)(;base64)?,(.*)$/);
+  if (dataUri) {
+    const [, mimeType, isBase64, data] = dataUri;
+    return {
+      mimeType,
+      buffer: isBase64
+        ? Buffer.from(data, 'base64')
+        : Buffer.from(decodeURIComponent(data)),
+    };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(src);
+  } catch {
+    throw new Error(`Not an image URL: ${src.slice(0, 80)}`);
+  }
+
+  let response: Response | null = null;
+  for (let redirects = 0; !response; redirects++) {
+    if (!isAllowedImageUrl(url)) {
+      throw new Error(`Images from ${url.host || url.protocol} are not downloaded; add the host to INLINE_IMAGE_HOSTS`);
+    }
+    const attempt = await fetch(url, { redirect: 'manual', signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    const location = attempt.headers.get('location');
+    if (attempt.status >= 300 && attempt.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) throw new Error('Failed to download image: too many redirects');
+      url = new URL(location, url);
+    } else {
+      response = attempt;
+    }
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to download image: ${response.status}`);
+  }
+
+  const mimeType = (response.headers.get('content-type') || 'image/png').split(';')[0].trim();
+  if (!mimeType.startsWith('image/')) {
+    throw new Error(`Not an image: ${mimeType}`);
+  }
+
+  return {
+    mimeType,
+    buffer: await readLimited(response),
+  };
+}
+
+function buildFilename(alt: string, hash: string, mimeType: string): string {
+  const base = alt
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .slice(0, 50);
+  const extension = EXTENSIONS[mimeType] || 'png';
+  return `${base || 'inline-image'}-${hash.slice(0, 8)}.${extension}`;
+}
+
+/**
+ * Uploads one image (data: URI or URL) to a site, reusing an earlier upload
+ * from the same URL (without downloading it again, since export links expire)
+ * or of the same bytes there
+ */
+export async function uploadImage(
+  client: WordPressClient,
+  src: string,
+  alt: string,
+  caption: string
+): Promise<{ mediaId: number; mediaUrl: string; reused: boolean }> {
+  const store = getStore();
+  const sourceUrl = /^https?:/i.test(src) ? src : undefined;
+
+  const uploadedFromUrl = sourceUrl && await store.findMediaBySource(client.name, sourceUrl);
+  if (uploadedFromUrl) {
+    return { mediaId: uploadedFromUrl.mediaId, mediaUrl: uploadedFromUrl.mediaUrl, reused: true };
+  }
+
+  const image = await loadImage(src);
+  const contentHash = crypto.createHash('sha256').update(image.buffer).digest('hex');
+
+  const existing = await store.findMediaByHash(client.name, contentHash);
+  if (existing) {
+    if (sourceUrl) await store.saveMediaRecord({ ...existing, sourceUrl });
+    return { mediaId: existing.mediaId, mediaUrl: existing.mediaUrl, reused: true };
+  }
+
+  const filename = buildFilename(alt, contentHash, image.mimeType);
+  const uploadResult = await client.uploadMedia(image.buffer, filename, image.mimeType);
+  if (!uploadResult.success || !uploadResult.mediaId || !uploadResult.mediaUrl) {
+    throw new Error(uploadResult.error || 'Media upload failed');
+  }
+
+  if (alt || caption) {
+    const updateResult = await client.updateMedia(uploadResult.mediaId, {
+      alt_text: alt,
+      caption,
+      title: caption || alt,
+    });
+    if (!updateResult.success) {
+      console.warn(`Could not set alt text on media ${uploadResult.mediaId}: ${updateResult.error}`);
+    }
+  }
+
+  await store.saveMediaRecord({
+    site: client.name,
+    contentHash,
+    mediaId: uploadResult.mediaId,
+    mediaUrl: uploadResult.mediaUrl,
+    sourceUrl,
+    createdAt: new Date().toISOString(),
+  });
+
+  return { mediaId: uploadResult.mediaId, mediaUrl: uploadResult.mediaUrl, reused: false };
+}
+
+/**
+ * Uploads every inline image in the content to the site's media library and
+ * rewrites its src to the media URL. Alt text is kept, and an image title
+ * (Google Docs "Alt text → Title") becomes a figcaption.
+ * Images that fail to upload are left untouched and reported in `errors`;
+ * publishing callers refuse to send content with such images.
+ */
+export async function uploadInlineImages(html: string, client: WordPressClient): Promise<InlineImagesResult> {
+  const result: InlineImagesResult = { content: html, uploaded: 0, reused: 0, errors: [] };
+
+  // Match standalone images wrapped in a paragraph first so the paragraph can become a figure
+  const imagePattern = /<p>\s*(<img\b[^>]*>)\s*<\/p>|<img\b[^>]*>/gi;
+  const matches = Array.from(html.matchAll(imagePattern));
+  if (matches.length === 0) {
+    return result;
+  }
+
+  const replacements = new Map<string, string>();
+
+  for (const match of matches) {
+    const fullMatch = match[0];
+    if (replacements.has(fullMatch)) continue;
+
+    const imgTag = match[1] || fullMatch;
+    const src = decodeEntities(getAttribute(imgTag, 'src'));
+    const alt = decodeEntities(getAttribute(imgTag, 'alt'));
+    const caption = decodeEntities(getAttribute(imgTag, 'title'));
+
+    // Already in this site's media library
+    if (!src || client.isOwnUrl(src)) continue;
+
+    try {
+      const { mediaUrl, reused } = await uploadImage(client, src, alt, caption);
+      if (reused) {
+        result.reused++;
+      } else {
+        result.uploaded++;
+      }
+
+      const img = `<img src="${escapeAttribute(mediaUrl)}" alt="${escapeAttribute(alt)}">`;
+      replacements.set(
+        fullMatch,
+        caption
+          ? `<figure>${img}<figcaption>${escapeAttribute(caption)}</figcaption></figure>`
+          : match[1] ? `<p>${img}</p>` : img
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Inline image upload failed (${src.slice(0, 80)}): ${message}`);
+      result.errors.push(message);
+    }
+  }
+
+  result.content = html.replace(imagePattern, (fullMatch) => replacements.get(fullMatch) ?? fullMatch);
+  return result;
+}
@@ -0,0 +1,155 @@
+import { getStore } from './store';
+import { Job } from '@/types';
+
+const DEFAULT_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '', 10) || 5;
+const BACKOFF_BASE_MS = (parseInt(process.env.JOB_BACKOFF_BASE_SECONDS || '', 10) || 30) * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+// How long a claimed job is reserved for its worker before others may pick it up again
+const LEASE_MS = 5 * 60 * 1000;
+
+export type JobRunResult =
+  | { ok: true; result?: unknown }
+  | { ok: false; error: string; retryable: boolean };
+
+export interface JobHandler<T = any> {
+  run(job: Job<T>): Promise<JobRunResult>;
+  // Called once when a job ends without success (permanent error or out of retries)
+  onFailure?(job: Job<T>, error: string): Promise<void>;
+}
+
+export interface WorkerSummary {
+  claimed: number;
+  completed: number;
+  retried: number;
+  failed: number;
+  dead: number;
+  jobs: Array<Pick<Job, 'id' | 'type' | 'status' | 'attempts' | 'lastError'>>;
+}
+
+/**
+ * Errors worth retrying: WordPress 5xx/429, Google quota and rate limits,
+ * and network failures. Everything else is treated as permanent.
+ */
+export function isTransientError(message: string): boolean {
+  return (
+    /WordPress API error: (5\d\d|429)\b/.test(message) ||
+    /\b(quota|rate ?limit|rateLimitExceeded|userRateLimitExceeded|backendError|too many requests)\b/i.test(message) ||
+    /\b(ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|ENOTFOUND|fetch failed|socket hang up)\b/i.test(message)
+  );
+}
+
+/**
+ * Exponential backoff with jitter: base, 2×base, 4×base, ... capped at an hour
+ */
+export function getBackoffMs(attempt: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+export async function enqueueJob<T>(
+  type: string,
+  payload: T,
+  options: { dedupeKey?: string; maxAttempts?: number } = {}
+): Promise<Job<T>> {
+  const job = await getStore().enqueueJob({
+    type,
+    payload,
+    dedupeKey: options.dedupeKey,
+    maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+  });
+  return job as Job<T>;
+}
+
+async function runJob(job: Job, handler: JobHandler | undefined): Promise<Job> {
+  const store = getStore();
+
+  let outcome: JobRunResult;
+  if (!handler) {
+    outcome = { ok: false, error: `No handler for job type "${job.type}"`, retryable: false };
+  } else {
+    try {
+      outcome = await handler.run(job);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      outcome = { ok: false, error: message, retryable: isTransientError(message) };
+    }
+  }
+
+  if (outcome.ok) {
+    return (await store.updateJob(job.id, {
+      status: 'completed',
+      result: outcome.result,
+      lastError: undefined,
+      lockedUntil: undefined,
+    }))!;
+  }
+
+  if (outcome.retryable && job.attempts < job.maxAttempts) {
+    const delay = getBackoffMs(job.attempts);
+    console.warn(`[Jobs] Job ${job.id} (${job.type}) attempt ${job.attempts}/${job.maxAttempts} failed, retrying in ${Math.round(delay / 1000)}s: ${outcome.error}`);
+    return (await store.updateJob(job.id, {
+      status: 'queued',
+      runAt: new Date(Date.now() + delay).toISOString(),
+      lastError: outcome.error,
+      lockedUntil: undefined,
+    }))!;
+  }
+
+  const status = outcome.retryable ? 'dead' : 'failed';
+  console.error(`[Jobs] Job ${job.id} (${job.type}) ${status} after ${job.attempts} attempt(s): ${outcome.error}`);
+  const finished = (await store.updateJob(job.id, {
+    status,
+    lastError: outcome.error,
+    lockedUntil: undefined,
+  }))!;
+
+  try {
+    await handler?.onFailure?.(finished, outcome.error);
+  } catch (error) {
+    console.error(`[Jobs] Failure handler for job ${job.id} failed:`, error);
+  }
+
+  return finished;
+}
+
+/**
+ * Claims due jobs and runs them with at most `concurrency` in flight.
+ * Processes up to `limit` jobs per call so a worker invocation stays within
+ * the serverless time limit; whatever is left is picked up by the next call.
+ */
+export async function runJobs(
+  handlers: Record<string, JobHandler>,
+  options: { concurrency?: number; limit?: number } = {}
+): Promise<WorkerSummary> {
+  const concurrency = Math.max(1, options.concurrency || parseInt(process.env.JOB_CONCURRENCY || '', 10) || 2);
+  const limit = Math.max(1, options.limit || parseInt(process.env.JOB_BATCH_SIZE || '', 10) || 10);
+  const store = getStore();
+
+  const summary: WorkerSummary = { claimed: 0, completed: 0, retried: 0, failed: 0, dead: 0, jobs: [] };
+
+  const worker = async () => {
+    while (summary.claimed < limit) {
+      // Claim one at a time so each job's lease starts when it actually runs
+      const [job] = await store.claimJobs(1, LEASE_MS);
+      if (!job) return;
+      summary.claimed++;
+
+      const finished = await runJob(job, handlers[job.type]);
+      if (finished.status === 'completed') summary.completed++;
+      else if (finished.status === 'queued') summary.retried++;
+      else if (finished.status === 'failed') summary.failed++;
+      else if (finished.status === 'dead') summary.dead++;
+
+      summary.jobs.push({
+        id: finished.id,
+        type: finished.type,
+        status: finished.status,
+        attempts: finished.attempts,
+        lastError: finished.lastError,
+      });
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  return summary;
+}
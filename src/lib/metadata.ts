@@ -0,0 +1,156 @@
+import { extractMetadata } from './ai';
+import { parseCategoryList } from './categories';
+import { DocumentMetadata, MetadataField, MetadataSources } from '@/types';
+
+// Fields the AI may fill in when the sheet leaves them blank
+export const AI_FILLABLE_FIELDS: MetadataField[] = [
+  'title',
+  'description',
+  'excerpt',
+  'categories',
+  'tags',
+  'seoTitle',
+  'seoDescription',
+];
+
+function generateSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .trim();
+}
+
+function isBlank(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  return typeof value !== 'string' || value.trim() === '';
+}
+
+/**
+ * A field is missing when it is blank or only holds a default value that
+ * nobody supplied (e.g. the "General" category fallback).
+ */
+export function getMissingFields(metadata: DocumentMetadata): MetadataField[] {
+  const sources = metadata.metadataSources || {};
+  return AI_FILLABLE_FIELDS.filter((field) => !sources[field] || isBlank(metadata[field]));
+}
+
+/**
+ * Merge policy between the sheet and the AI: values from the sheet, the
+ * document or a manual edit always win; the AI is only asked when at least
+ * one field is missing, and only the missing fields are taken from it.
+ * Every field records where its value came from.
+ */
+export async function fillMissingMetadata(
+  metadata: DocumentMetadata,
+  content: string,
+  fileName: string
+): Promise<DocumentMetadata> {
+  const missing = getMissingFields(metadata);
+  if (missing.length === 0 || !content) {
+    return metadata;
+  }
+
+  const aiMetadata = await extractMetadata(content, fileName);
+  let merged: DocumentMetadata = { ...metadata };
+  const sources: MetadataSources = { ...metadata.metadataSources };
+
+  for (const field of missing) {
+    if (isBlank(aiMetadata[field])) continue;
+    merged = { ...merged, [field]: aiMetadata[field] };
+    sources[field] = 'ai';
+  }
+
+  // Keep the slug in step with an AI-provided title unless someone set it explicitly
+  if (!sources.slug || isBlank(merged.slug)) {
+    merged.slug = generateSlug(merged.title);
+    sources.slug = sources.title;
+  }
+
+  merged.metadataSources = sources;
+  return merged;
+}
+
+// Fields a document may give about itself
+const DOCUMENT_FIELDS: MetadataField[] = [
+  'title', 'slug', 'description', 'excerpt', 'categories', 'tags', 'author', 'seoTitle', 'seoDescription',
+];
+
+// Frontmatter keys (lowercased, "-" and "_" removed) and the field each one fills
+const FRONTMATTER_FIELDS: Record<string, MetadataField | 'publishDate'> = {
+  title: 'title',
+  slug: 'slug',
+  description: 'description',
+  summary: 'description',
+  excerpt: 'excerpt',
+  category: 'categories',
+  categories: 'categories',
+  tags: 'tags',
+  keywords: 'tags',
+  author: 'author',
+  date: 'publishDate',
+  publishdate: 'publishDate',
+  seotitle: 'seoTitle',
+  metatitle: 'seoTitle',
+  seodescription: 'seoDescription',
+  metadescription: 'seoDescription',
+};
+
+/**
+ * Maps Markdown frontmatter (see extractFrontmatter) to metadata fields.
+ * Unknown keys are ignored; a date becomes a YYYY-MM-DD publish date.
+ */
+export function frontmatterToMetadata(frontmatter: Record<string, string>): Partial<DocumentMetadata> {
+  const metadata: Partial<DocumentMetadata> = {};
+
+  for (const [key, value] of Object.entries(frontmatter)) {
+    const field = FRONTMATTER_FIELDS[key.toLowerCase().replace(/[-_]/g, '')];
+    if (!field || isBlank(value)) continue;
+
+    if (field === 'tags') {
+      metadata.tags = value.split(',').map((tag) => tag.trim()).filter(Boolean);
+    } else if (field === 'categories') {
+      metadata.categories = parseCategoryList(value);
+    } else if (field === 'publishDate') {
+      const date = new Date(value);
+      if (!isNaN(date.getTime())) {
+        metadata.publishDate = date.toISOString().split('T')[0];
+      }
+    } else {
+      metadata[field] = value;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Fills the fields the sheet left blank with what the document says about
+ * itself (Markdown frontmatter), recorded as coming from the document.
+ * Sheet values and manual edits win, as with the AI. The publish date is
+ * left to the caller, since only it knows whether the sheet set one.
+ */
+export function applyDocumentMetadata(
+  metadata: DocumentMetadata,
+  documentMetadata: Partial<DocumentMetadata>
+): DocumentMetadata {
+  let merged: DocumentMetadata = { ...metadata };
+  const sources: MetadataSources = { ...metadata.metadataSources };
+
+  for (const field of DOCUMENT_FIELDS) {
+    const value = documentMetadata[field];
+    if (isBlank(value) || (sources[field] && !isBlank(metadata[field]))) continue;
+    merged = { ...merged, [field]: value };
+    sources[field] = 'document';
+  }
+
+  // Keep the slug in step with a title from the document unless a slug was given
+  if (sources.title === 'document' && (!sources.slug || isBlank(merged.slug))) {
+    merged.slug = generateSlug(merged.title);
+    sources.slug = 'document';
+  }
+
+  merged.metadataSources = sources;
+  return merged;
+}
@@ -0,0 +1,44 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+// Stored as "scrypt:<salt hex>:<key hex>"; no "$" so .env variable expansion leaves it alone
+const PREFIX = 'scrypt';
+const KEY_LENGTH = 64;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Hashes a password for ADMIN_PASSWORD_HASH (see `npm run hash-password`)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `${PREFIX}:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+/**
+ * Checks a password against a hash from hashPassword in constant time.
+ * A malformed hash never matches.
+ */
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [prefix, saltHex, keyHex] = hash.trim().split(':');
+  if (prefix !== PREFIX || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, 'hex');
+  if (expected.length !== KEY_LENGTH) return false;
+
+  const key = await deriveKey(password, Buffer.from(saltHex, 'hex'));
+  return timingSafeEqual(key, expected);
+}
+
+/**
+ * Compares against a plaintext password (the deprecated ADMIN_PASSWORD) in
+ * constant time; both sides are digested first so their lengths don't leak
+ */
+export function matchesPlainPassword(password: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(password), digest(expected));
+}
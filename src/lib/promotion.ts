@@ -0,0 +1,249 @@
+import { getFileMetadata } from './google-drive';
+import { findWordPressEdits, getDriveFileId, isPostOutOfSync } from './document-sync';
+import { uploadImage, uploadInlineImages } from './inline-images';
+import { getPromotionSites, getSitePosts, getWordPressClient, StoredPost, WordPressClient } from './wordpress';
+import { describePost, recordPublish } from './publish-history';
+import { decodeTermName, getCategoryPath } from './categories';
+import { Document, SitePost, WordPressPost } from '@/types';
+
+export interface PromotionResult {
+  success: boolean;
+  site?: string; // Production site
+  postId?: number;
+  postUrl?: string;
+  publishedAt?: string;
+  revision?: string; // Drive revision the staging post was published from
+  content?: string; // Post content as sent to production
+  isUpdate?: boolean;
+  stale?: boolean; // Refused: the Google Doc changed after the staging publish, or production was edited in WordPress
+  warnings: string[];
+  error?: string;
+}
+
+/**
+ * Why the staging post can't be promoted as it is, or null when the Google
+ * Doc hasn't been edited since the app last wrote the staging post
+ */
+async function checkStagingIsCurrent(accessToken: string, doc: Document, staging: SitePost): Promise<string | null> {
+  if (!staging.updatedAt) {
+    return 'The staging post has no recorded publish time; publish to staging again before promoting';
+  }
+
+  const driveFileId = await getDriveFileId(accessToken, doc);
+  if (!driveFileId) {
+    return 'The Google Doc for this document is unknown, so it can\'t be checked for changes since the staging publish';
+  }
+
+  const file = await getFileMetadata(accessToken, driveFileId);
+  if (!file.modifiedTime) {
+    return 'Google Drive did not report when the document was last modified';
+  }
+
+  if (isPostOutOfSync(staging, file)) {
+    return `The Google Doc was edited at ${file.modifiedTime}, after the staging publish (${staging.updatedAt}); publish to staging again before promoting`;
+  }
+
+  return null;
+}
+
+/**
+ * Maps the staging post's category and tag IDs to the production site's by
+ * name (categories by their full path), creating the terms production
+ * doesn't have yet
+ */
+async function mapTerms(
+  staging: WordPressClient,
+  production: WordPressClient,
+  post: StoredPost
+): Promise<{ categories: number[]; categoryPaths: string[]; tags: number[]; tagNames: string[] }> {
+  const [stagingCategories, stagingTags] = await Promise.all([
+    staging.getCategories(),
+    post.tags.length > 0 ? staging.getTags() : Promise.resolve([]),
+  ]);
+  const categoryPaths = post.categories
+    .map((id) => getCategoryPath(stagingCategories, id))
+    .filter((path): path is string => !!path);
+  const categories = await production.getOrCreateCategories(categoryPaths);
+
+  const tagNames = post.tags
+    .map((id) => stagingTags.find((tag) => tag.id === id)?.name)
+    .filter((name): name is string => !!name)
+    .map(decodeTermName);
+  const tags = tagNames.length > 0 ? await production.getOrCreateTags(tagNames) : [];
+
+  return { categories, categoryPaths, tags, tagNames };
+}
+
+/**
+ * Copies the staging post's featured image, with its alt text and caption,
+ * into the production media library
+ */
+async function copyFeaturedImage(
+  staging: WordPressClient,
+  production: WordPressClient,
+  mediaId: number
+): Promise<number> {
+  const media = await staging.getMedia(mediaId);
+  const caption = media.caption.raw.replace(/<[^>]+>/g, '').trim();
+  const { mediaId: copiedId } = await uploadImage(production, media.source_url, media.alt_text, caption);
+  return copiedId;
+}
+
+/**
+ * Promotes a document's staging post to production: content, metadata,
+ * categories/tags (mapped by name) and the featured image are copied from
+ * the staging post as it is in WordPress, and inline images are re-hosted
+ * on production. The production post is created the first time and updated
+ * after that. Refuses (stale) when the Google Doc changed after the staging
+ * publish, since staging would no longer be what was reviewed, and when the
+ * production post was edited in WordPress, since the edits would be lost.
+ * The attempt is recorded in the publish history under `runId`.
+ */
+export async function promoteDocument(
+  accessToken: string,
+  doc: Document,
+  runId?: number
+): Promise<PromotionResult> {
+  const startedAt = Date.now();
+  const result: PromotionResult = { success: false, warnings: [] };
+
+  const sites = getPromotionSites();
+  if (!sites) {
+    result.error = 'Promotion is not enabled; set WORDPRESS_STAGING_SITE';
+    return result;
+  }
+  result.site = sites.production;
+
+  const posts = getSitePosts(doc);
+  const stagingPost = posts[sites.staging];
+  if (!stagingPost) {
+    result.error = `This document has not been published to ${sites.staging} yet`;
+    return result;
+  }
+  if (!doc.metadata) {
+    result.error = 'Document must be processed before promoting';
+    return result;
+  }
+
+  const existingId = posts[sites.production]?.postId;
+  result.isUpdate = !!existingId;
+  const history = {
+    documentId: doc.id,
+    source: 'promotion' as const,
+    action: existingId ? 'update' as const : 'create' as const,
+    runId,
+    sheetRowIndex: doc.sheetRowIndex,
+    driveFileId: doc.driveFileId,
+    title: doc.metadata.title,
+    site: sites.production,
+  };
+  let recorded = false;
+
+  try {
+    const refusal = await checkStagingIsCurrent(accessToken, doc, stagingPost);
+    if (refusal) {
+      result.stale = true;
+      result.error = refusal;
+      return result;
+    }
+
+    const staging = getWordPressClient(sites.staging);
+    const production = getWordPressClient(sites.production);
+
+    // Promoting again would overwrite edits made to the production post in WordPress
+    const productionPost = posts[sites.production];
+    if (productionPost && (await findWordPressEdits(production, productionPost))) {
+      result.stale = true;
+      result.error = `The ${sites.production} post was edited in WordPress since it was last promoted; bring the edits into the Google Doc, or undo them, before promoting again`;
+      return result;
+    }
+    const source = await staging.getPost(stagingPost.postId);
+
+    const terms = await mapTerms(staging, production, source);
+
+    let featuredMediaId: number | undefined;
+    if (source.featured_media) {
+      try {
+        featuredMediaId = await copyFeaturedImage(staging, production, source.featured_media);
+      } catch (imageError) {
+        const message = imageError instanceof Error ? imageError.message : 'Unknown error';
+        console.warn(`[Promotion] Featured image copy failed: ${message}`);
+        result.warnings.push(`Featured image was not copied: ${message}`);
+      }
+    }
+
+    const inlineImages = await uploadInlineImages(source.content.raw, production);
+    if (inlineImages.errors.length > 0) {
+      result.warnings.push(`${inlineImages.errors.length} inline image(s) still point at ${sites.staging}`);
+    }
+
+    const stringMeta = (key: string) => (typeof source.meta?.[key] === 'string' ? source.meta[key] as string : '');
+    const post: WordPressPost = {
+      title: source.title.raw,
+      content: inlineImages.content,
+      excerpt: source.excerpt.raw,
+      slug: source.slug,
+      status: 'publish',
+      // A post scheduled on staging stays scheduled for the same time
+      date: source.status === 'future' ? source.date : undefined,
+      categories: terms.categories,
+      tags: terms.tags,
+      featured_media: featuredMediaId,
+      format: source.format,
+      meta: {
+        _yoast_wpseo_title: stringMeta('_yoast_wpseo_title') || doc.metadata.seoTitle || source.title.raw,
+        _yoast_wpseo_metadesc: stringMeta('_yoast_wpseo_metadesc') || doc.metadata.seoDescription || source.excerpt.raw,
+      },
+    };
+
+    console.log(`[Promotion] ${existingId ? `Updating ${sites.production} post ${existingId}` : `Creating ${sites.production} post`} from ${sites.staging} post ${stagingPost.postId}`);
+    const wpResult = existingId
+      ? await production.updatePost(existingId, post)
+      : await production.createPost(post);
+
+    await recordPublish({
+      ...history,
+      success: wpResult.success,
+      wpPostId: wpResult.postId || existingId,
+      wpPostUrl: wpResult.postUrl,
+      wpStatus: 'publish',
+      sentMetadata: describePost(post, { ...doc.metadata, categories: terms.categoryPaths, tags: terms.tagNames }),
+      error: wpResult.error,
+      durationMs: Date.now() - startedAt,
+      createdAt: new Date().toISOString(),
+    });
+    recorded = true;
+
+    if (!wpResult.success || !wpResult.postId) {
+      result.error = wpResult.error || 'WordPress publish failed';
+      return result;
+    }
+
+    result.success = true;
+    result.postId = wpResult.postId;
+    result.postUrl = wpResult.postUrl;
+    result.publishedAt = wpResult.publishedAt;
+    result.revision = stagingPost.revision;
+    result.content = post.content;
+    return result;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Promotion failed';
+    return result;
+  } finally {
+    // Refusals and failures before the WordPress call are recorded too
+    if (!recorded) {
+      try {
+        await recordPublish({
+          ...history,
+          success: false,
+          wpPostId: existingId,
+          error: result.error,
+          durationMs: Date.now() - startedAt,
+          createdAt: new Date().toISOString(),
+        });
+      } catch (historyError) {
+        console.error('[Promotion] Failed to record publish history:', historyError);
+      }
+    }
+  }
+}
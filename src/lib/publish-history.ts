@@ -0,0 +1,134 @@
+import { getStore } from './store';
+import { DEFAULT_SITE } from './wordpress';
+import {
+  DocumentMetadata,
+  MetadataChange,
+  PublishHistoryEntry,
+  PublishRun,
+  RunTrigger,
+  WordPressPost,
+} from '@/types';
+
+/**
+ * Opens a run record for one call to a publishing endpoint. Individual
+ * publishes made during the call link back to it with its id.
+ */
+export async function startRun(
+  kind: PublishRun['kind'],
+  trigger: RunTrigger,
+  triggeredBy?: string
+): Promise<PublishRun> {
+  return getStore().createPublishRun({
+    kind,
+    trigger,
+    triggeredBy,
+    status: 'running',
+    rows: [],
+    wpPostIds: [],
+    succeeded: 0,
+    failed: 0,
+    startedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Closes a run: rows, WordPress IDs and success counts are taken from the
+ * publishes recorded under it, plus any rows the caller touched without
+ * publishing (e.g. rows queued for the worker).
+ */
+export async function finishRun(
+  run: PublishRun,
+  outcome: { rows?: number[]; message?: string; error?: string } = {}
+): Promise<PublishRun | null> {
+  const entries = await getStore().listPublishHistory({ runId: run.id });
+  const rows = new Set(outcome.rows || []);
+  const wpPostIds = new Set<number>();
+
+  for (const entry of entries) {
+    if (entry.sheetRowIndex) rows.add(entry.sheetRowIndex);
+    if (entry.wpPostId) wpPostIds.add(entry.wpPostId);
+  }
+
+  const finishedAt = new Date();
+  return getStore().updatePublishRun(run.id, {
+    status: outcome.error ? 'failed' : 'completed',
+    rows: Array.from(rows).sort((a, b) => a - b),
+    wpPostIds: Array.from(wpPostIds),
+    succeeded: entries.filter((entry) => entry.success).length,
+    failed: entries.filter((entry) => !entry.success).length,
+    message: outcome.message,
+    error: outcome.error,
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - new Date(run.startedAt).getTime(),
+  });
+}
+
+/**
+ * Flattens the post fields sent to WordPress (everything but the content)
+ * into labelled strings, using term names rather than IDs so the history
+ * stays readable.
+ */
+export function describePost(post: WordPressPost, metadata: DocumentMetadata): Record<string, string> {
+  const fields: Record<string, string | number | undefined> = {
+    Title: post.title,
+    Slug: post.slug,
+    Status: post.status,
+    Date: post.date,
+    Excerpt: post.excerpt,
+    Categories: metadata.categories.join(', '),
+    Tags: metadata.tags.join(', '),
+    'Featured image': post.featured_media,
+    Author: post.author,
+    Format: post.format,
+    'SEO title': post.meta?._yoast_wpseo_title,
+    'SEO description': post.meta?._yoast_wpseo_metadesc,
+  };
+
+  const described: Record<string, string> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    if (value !== undefined && value !== '') described[field] = String(value);
+  }
+  return described;
+}
+
+export function diffMetadata(
+  before: Record<string, string>,
+  after: Record<string, string>
+): MetadataChange[] {
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return fields
+    .filter((field) => before[field] !== after[field])
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * Stores one publish attempt. When the fields sent are known, they are
+ * diffed against the last successful publish of the same document to the
+ * same site (a first publish lists every field as added).
+ */
+export async function recordPublish(
+  entry: Omit<PublishHistoryEntry, 'id' | 'metadataChanges'>
+): Promise<PublishHistoryEntry> {
+  const store = getStore();
+
+  let metadataChanges: MetadataChange[] | undefined;
+  if (entry.sentMetadata) {
+    const previous = (await store.listPublishHistory({ documentId: entry.documentId, limit: 50 }))
+      .find((e) => e.success && e.sentMetadata && (e.site || DEFAULT_SITE) === (entry.site || DEFAULT_SITE));
+    metadataChanges = diffMetadata(previous?.sentMetadata || {}, entry.sentMetadata);
+  }
+
+  return store.addPublishHistory({ ...entry, metadataChanges });
+}
+
+/**
+ * Who started a run: the signed-in user when there is a session, otherwise
+ * the Vercel cron or an API key caller.
+ */
+export function getRunTrigger(
+  userEmail: string | null | undefined,
+  isCron: boolean
+): { trigger: RunTrigger; triggeredBy?: string } {
+  if (userEmail) return { trigger: 'session', triggeredBy: userEmail };
+  return { trigger: isCron ? 'cron' : 'api-key' };
+}
@@ -0,0 +1,120 @@
+import { Role } from '@/types';
+
+// Lowest to highest; each role can do everything the roles before it can
+export const ROLES: Role[] = ['viewer', 'editor', 'publisher', 'admin'];
+
+export type Permission =
+  | 'view' // Browse documents, previews and history
+  | 'process' // Process documents, run the editorial pass, edit and save metadata/content
+  | 'saveDraft' // Create or update WordPress drafts
+  | 'publish' // Publish live, or change a post that is already live
+  | 'autoPublish' // Trigger auto-publish and the job worker
+  | 'manageSettings';
+
+const REQUIRED_ROLE: Record<Permission, Role> = {
+  view: 'viewer',
+  process: 'editor',
+  saveDraft: 'editor',
+  publish: 'publisher',
+  autoPublish: 'publisher',
+  manageSettings: 'admin',
+};
+
+// Env var holding the allow-list for each role (comma-separated emails and/or domains)
+const ROLE_ENV: Record<Role, string> = {
+  viewer: 'VIEWER_EMAILS',
+  editor: 'EDITOR_EMAILS',
+  publisher: 'PUBLISHER_EMAILS',
+  admin: 'ADMIN_EMAILS',
+};
+
+export function hasPermission(role: Role | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return ROLES.indexOf(role) >= ROLES.indexOf(REQUIRED_ROLE[permission]);
+}
+
+export function forbiddenMessage(role: Role | null | undefined, permission: Permission): string {
+  return `Your role (${role || 'none'}) does not allow this; it requires ${REQUIRED_ROLE[permission]} access`;
+}
+
+export function parseAllowList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Whether an allow-list entry names this email's domain ("example.com" or "@example.com")
+ */
+export function matchesDomain(entry: string, email: string): boolean {
+  return !entry.includes('@', 1) && entry.replace(/^@/, '') === (email.toLowerCase().split('@')[1] || '');
+}
+
+function getRoleLists() {
+  return ROLES.map((role) => ({ role, entries: parseAllowList(process.env[ROLE_ENV[role]]) }));
+}
+
+// Every entry of every role allow-list
+export function getRoleAllowListEntries(): string[] {
+  return getRoleLists().flatMap((list) => list.entries);
+}
+
+export function hasRoleAllowLists(): boolean {
+  return getRoleAllowListEntries().length > 0;
+}
+
+/**
+ * The role an email is listed for in ADMIN_EMAILS, PUBLISHER_EMAILS,
+ * EDITOR_EMAILS or VIEWER_EMAILS, or null when it is on none of them.
+ * Entries are full emails or domains. An email match beats a domain match,
+ * so one person can be raised or lowered from their domain's role;
+ * otherwise the highest matching role wins. `domainMatches` narrows which
+ * domain entries count (sign-in uses it to require a Workspace account).
+ */
+export function getListedRole(
+  email: string,
+  domainMatches: (entry: string) => boolean = (entry) => matchesDomain(entry, email)
+): Role | null {
+  const normalized = email.trim().toLowerCase();
+  const lists = getRoleLists();
+
+  const byEmail = lists.filter((list) => list.entries.includes(normalized));
+  const byDomain = lists.filter((list) => list.entries.some(domainMatches));
+  const matches = byEmail.length > 0 ? byEmail : byDomain;
+
+  return matches.length > 0 ? matches[matches.length - 1].role : null;
+}
+
+/**
+ * Resolves a user's role from the per-role allow-lists (see getListedRole).
+ * Users on no list get DEFAULT_ROLE (viewer unless set).
+ *
+ * The ADMIN_EMAIL credentials user is always an admin. When no allow-list is
+ * configured at all, everyone is an admin, as before roles existed.
+ */
+export function getRoleForEmail(email: string | null | undefined): Role | null {
+  if (!email) return null;
+
+  const normalized = email.trim().toLowerCase();
+  if (process.env.ADMIN_EMAIL && normalized === process.env.ADMIN_EMAIL.trim().toLowerCase()) {
+    return 'admin';
+  }
+
+  if (!hasRoleAllowLists()) {
+    return 'admin';
+  }
+
+  const listed = getListedRole(normalized);
+  if (listed) return listed;
+
+  const fallback = (process.env.DEFAULT_ROLE || 'viewer').toLowerCase() as Role;
+  return ROLES.includes(fallback) ? fallback : 'viewer';
+}
+
+/**
+ * The role attached to a session by the session callback in authOptions
+ */
+export function getSessionRole(session: unknown): Role | null {
+  return ((session as { role?: Role } | null)?.role) || null;
+}
@@ -0,0 +1,55 @@
+import { getListedRole, getRoleAllowListEntries, hasRoleAllowLists, matchesDomain, parseAllowList } from './roles';
+
+export interface SignInAttempt {
+  email?: string | null;
+  provider: string; // "google" or "credentials"
+  hostedDomain?: string; // Google Workspace domain ("hd" claim) of the account
+  emailVerified?: boolean;
+}
+
+export type SignInDecision = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * Decides whether an account may sign in. Allowed are emails in
+ * AUTH_ALLOWED_EMAILS, accounts of a domain in AUTH_ALLOWED_DOMAINS, and
+ * anyone on a role allow-list (ADMIN_EMAILS, PUBLISHER_EMAILS, ...).
+ * A Google account only matches a domain entry when it is managed by that
+ * Workspace domain, so a personal account with a look-alike address can't
+ * get in. Applies to every provider, including the admin credentials login.
+ *
+ * With no list configured at all every account is allowed, as before.
+ */
+export function checkSignIn(attempt: SignInAttempt): SignInDecision {
+  const email = attempt.email?.trim().toLowerCase();
+  if (!email) {
+    return { allowed: false, reason: 'the account has no email address' };
+  }
+
+  if (attempt.provider === 'google' && attempt.emailVerified === false) {
+    return { allowed: false, reason: 'the Google email address is not verified' };
+  }
+
+  const allowedEmails = parseAllowList(process.env.AUTH_ALLOWED_EMAILS);
+  const allowedDomains = parseAllowList(process.env.AUTH_ALLOWED_DOMAINS);
+
+  if (allowedEmails.length === 0 && allowedDomains.length === 0 && !hasRoleAllowLists()) {
+    console.warn(`[Auth] No sign-in allow-list configured; allowing ${email}. Set AUTH_ALLOWED_DOMAINS or AUTH_ALLOWED_EMAILS.`);
+    return { allowed: true };
+  }
+
+  const hostedDomain = attempt.hostedDomain?.toLowerCase();
+  const domainMatches = (entry: string) =>
+    matchesDomain(entry, email) &&
+    (attempt.provider !== 'google' || hostedDomain === entry.replace(/^@/, ''));
+
+  if (allowedEmails.includes(email) || allowedDomains.some(domainMatches) || getListedRole(email, domainMatches)) {
+    return { allowed: true };
+  }
+
+  const domainListed = [...allowedDomains, ...getRoleAllowListEntries()].some((entry) => matchesDomain(entry, email));
+  if (domainListed) {
+    return { allowed: false, reason: `${email} is not a Google Workspace account of its domain` };
+  }
+
+  return { allowed: false, reason: `${email} is not on the sign-in allow-list` };
+}
@@ -0,0 +1,93 @@
+import {
+  Document,
+  ImageAsset,
+  ImageAssetVariant,
+  Job,
+  JobStatus,
+  MediaRecord,
+  PublishHistoryEntry,
+  PublishHistoryFilter,
+  PublishIntent,
+  PublishRun,
+} from '@/types';
+import { createSqliteStore } from './sqlite';
+import { createMemoryStore } from './memory';
+
+/**
+ * Persistence adapter for processed documents, their publish history and the
+ * runs that produced it, the index of media already uploaded to each WordPress site,
+ * the cache of processed featured images, the locks and publish intents that keep concurrent auto-publish runs from
+ * duplicating posts, and the background job queue.
+ * The default adapter is a SQLite file; any other backend (Postgres, KV, ...)
+ * only needs to implement this interface and be registered in getStore().
+ */
+export interface DocumentStore {
+  getDocument(id: string): Promise<Document | null>;
+  listDocuments(): Promise<Document[]>;
+  saveDocument(doc: Document): Promise<Document>;
+  updateDocument(id: string, updates: Partial<Document>): Promise<Document | null>;
+  addPublishHistory(entry: Omit<PublishHistoryEntry, 'id'>): Promise<PublishHistoryEntry>;
+  // Newest first; every filter given must match
+  listPublishHistory(filter: PublishHistoryFilter): Promise<PublishHistoryEntry[]>;
+  createPublishRun(run: Omit<PublishRun, 'id'>): Promise<PublishRun>;
+  updatePublishRun(id: number, updates: Partial<Omit<PublishRun, 'id'>>): Promise<PublishRun | null>;
+  getPublishRun(id: number): Promise<PublishRun | null>;
+  listPublishRuns(options?: { limit?: number }): Promise<PublishRun[]>;
+  findMediaByHash(site: string, contentHash: string): Promise<MediaRecord | null>;
+  // Media uploaded from this URL; one record can have been reached from several
+  findMediaBySource(site: string, sourceUrl: string): Promise<MediaRecord | null>;
+  // Media uploaded from this revision of a Drive image
+  findMediaByDriveFile(site: string, driveFileId: string, driveRevision: string): Promise<MediaRecord | null>;
+  saveMediaRecord(record: MediaRecord): Promise<void>;
+  getAsset(id: string): Promise<ImageAsset | null>;
+  getAssetData(id: string, variant: ImageAssetVariant): Promise<Buffer | null>;
+  // Replaces any earlier version of the asset
+  saveAsset(asset: ImageAsset, data: Buffer, thumbnail: Buffer): Promise<void>;
+  // Takes (or renews) the named lock if it is free, expired or already ours; false if another owner holds it
+  acquireLock(name: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseLock(name: string, owner: string): Promise<void>;
+  getPublishIntent(key: string): Promise<PublishIntent | null>;
+  savePublishIntent(intent: PublishIntent): Promise<void>;
+  // Returns the existing job instead when one with the same dedupeKey is queued or running
+  enqueueJob(job: NewJob): Promise<Job>;
+  // Atomically leases up to `limit` due jobs (queued, or running with an expired lease).
+  // A job whose lease expired on its last attempt is marked failed instead.
+  claimJobs(limit: number, leaseMs: number): Promise<Job[]>;
+  updateJob(id: number, updates: Partial<Omit<Job, 'id'>>): Promise<Job | null>;
+  listJobs(options?: { status?: JobStatus; limit?: number }): Promise<Job[]>;
+}
+
+export type NewJob = Pick<Job, 'type' | 'payload' | 'maxAttempts'> & Partial<Pick<Job, 'dedupeKey' | 'runAt'>>;
+
+let store: DocumentStore | null = null;
+
+/**
+ * Returns the configured document store (DOCUMENT_STORE=sqlite|memory).
+ * The instance is shared for the lifetime of the server process.
+ */
+export function getStore(): DocumentStore {
+  if (store) return store;
+
+  const adapter = (process.env.DOCUMENT_STORE || 'sqlite').toLowerCase();
+
+  switch (adapter) {
+    case 'sqlite':
+      // Vercel functions only have a temporary disk per instance: the database
+      // would vanish on cold starts and differ between instances
+      if (process.env.VERCEL) {
+        throw new Error(
+          'The SQLite document store needs a persistent disk, which Vercel does not provide. ' +
+          'Deploy on a server with a persistent volume, or add a hosted DocumentStore adapter.'
+        );
+      }
+      store = createSqliteStore(process.env.DOCUMENT_STORE_PATH || 'data/blog-admin.db');
+      break;
+    case 'memory':
+      store = createMemoryStore();
+      break;
+    default:
+      throw new Error(`Unsupported DOCUMENT_STORE adapter: ${adapter}`);
+  }
+
+  return store;
+}
@@ -0,0 +1,219 @@
+import { Document, ImageAsset, Job, MediaRecord, PublishHistoryEntry, PublishIntent, PublishRun } from '@/types';
+import type { DocumentStore } from './index';
+
+/**
+ * Non-persistent store, useful for local experiments.
+ * Everything is lost when the process restarts.
+ */
+export function createMemoryStore(): DocumentStore {
+  const documents = new Map<string, Document>();
+  const history: PublishHistoryEntry[] = [];
+  const runs = new Map<number, PublishRun>();
+  const media = new Map<string, MediaRecord>();
+  const mediaSources = new Map<string, string>(); // "site:url" → content hash
+  const assets = new Map<string, { asset: ImageAsset; data: Buffer; thumbnail: Buffer }>();
+  const locks = new Map<string, { owner: string; expiresAt: number }>();
+  const intents = new Map<string, PublishIntent>();
+  const jobs = new Map<number, Job>();
+  let nextJobId = 1;
+
+  const isActive = (job: Job) => job.status === 'queued' || job.status === 'running';
+
+  return {
+    async getDocument(id) {
+      return documents.get(id) || null;
+    },
+
+    async listDocuments() {
+      return Array.from(documents.values());
+    },
+
+    async saveDocument(doc) {
+      documents.set(doc.id, doc);
+      return doc;
+    },
+
+    async updateDocument(id, updates) {
+      const existing = documents.get(id);
+      if (!existing) return null;
+
+      const updated = { ...existing, ...updates, id };
+      documents.set(id, updated);
+      return updated;
+    },
+
+    async addPublishHistory(entry) {
+      const saved = { ...entry, id: history.length + 1 };
+      history.push(saved);
+      return saved;
+    },
+
+    async listPublishHistory(filter) {
+      return history
+        .filter((entry) =>
+          (filter.documentId === undefined || entry.documentId === filter.documentId) &&
+          (filter.runId === undefined || entry.runId === filter.runId) &&
+          (filter.sheetRowIndex === undefined || entry.sheetRowIndex === filter.sheetRowIndex) &&
+          (filter.wpPostId === undefined || entry.wpPostId === filter.wpPostId)
+        )
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id)
+        .slice(0, filter.limit ?? 500);
+    },
+
+    async createPublishRun(run) {
+      const saved = { ...run, id: runs.size + 1 };
+      runs.set(saved.id, saved);
+      return saved;
+    },
+
+    async updatePublishRun(id, updates) {
+      const existing = runs.get(id);
+      if (!existing) return null;
+
+      const updated = { ...existing, ...updates, id };
+      runs.set(id, updated);
+      return updated;
+    },
+
+    async getPublishRun(id) {
+      return runs.get(id) || null;
+    },
+
+    async listPublishRuns(options = {}) {
+      return Array.from(runs.values())
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt) || b.id - a.id)
+        .slice(0, options.limit ?? 100);
+    },
+
+    async findMediaByHash(site, contentHash) {
+      return media.get(`${site}:${contentHash}`) || null;
+    },
+
+    async findMediaByDriveFile(site, driveFileId, driveRevision) {
+      return Array.from(media.values())
+        .filter((record) =>
+          record.site === site && record.driveFileId === driveFileId && record.driveRevision === driveRevision
+        )
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] || null;
+    },
+
+    async findMediaBySource(site, sourceUrl) {
+      const contentHash = mediaSources.get(`${site}:${sourceUrl}`);
+      return (contentHash && media.get(`${site}:${contentHash}`)) || null;
+    },
+
+    async saveMediaRecord(record) {
+      media.set(`${record.site}:${record.contentHash}`, record);
+      if (record.sourceUrl) mediaSources.set(`${record.site}:${record.sourceUrl}`, record.contentHash);
+    },
+
+    async getAsset(id) {
+      return assets.get(id)?.asset || null;
+    },
+
+    async getAssetData(id, variant) {
+      const cached = assets.get(id);
+      if (!cached) return null;
+      return variant === 'thumbnail' ? cached.thumbnail : cached.data;
+    },
+
+    async saveAsset(asset, data, thumbnail) {
+      assets.set(asset.id, { asset, data, thumbnail });
+    },
+
+    async acquireLock(name, owner, ttlMs) {
+      const now = Date.now();
+      const held = locks.get(name);
+      if (held && held.owner !== owner && held.expiresAt > now) return false;
+
+      locks.set(name, { owner, expiresAt: now + ttlMs });
+      return true;
+    },
+
+    async releaseLock(name, owner) {
+      if (locks.get(name)?.owner === owner) {
+        locks.delete(name);
+      }
+    },
+
+    async getPublishIntent(key) {
+      return intents.get(key) || null;
+    },
+
+    async savePublishIntent(intent) {
+      intents.set(intent.key, intent);
+    },
+
+    async enqueueJob(newJob) {
+      const active = newJob.dedupeKey
+        ? Array.from(jobs.values()).find((job) => job.dedupeKey === newJob.dedupeKey && isActive(job))
+        : undefined;
+      if (active) return active;
+
+      const now = new Date().toISOString();
+      const job: Job = {
+        ...newJob,
+        id: nextJobId++,
+        status: 'queued',
+        attempts: 0,
+        runAt: newJob.runAt || now,
+        createdAt: now,
+        updatedAt: now,
+      };
+      jobs.set(job.id, job);
+      return job;
+    },
+
+    async claimJobs(limit, leaseMs) {
+      const now = new Date();
+      const nowIso = now.toISOString();
+      const due = Array.from(jobs.values())
+        .filter((job) =>
+          (job.status === 'queued' && job.runAt <= nowIso) ||
+          (job.status === 'running' && (job.lockedUntil || '') <= nowIso)
+        )
+        .sort((a, b) => a.runAt.localeCompare(b.runAt) || a.id - b.id)
+        .filter((job) => {
+          // An expired lease means the worker died mid-attempt; that attempt counts
+          if (job.status !== 'running' || job.attempts < job.maxAttempts) return true;
+          jobs.set(job.id, {
+            ...job,
+            status: 'failed',
+            lastError: `Worker stopped during attempt ${job.attempts}/${job.maxAttempts} (lease expired)`,
+            lockedUntil: undefined,
+            updatedAt: nowIso,
+          });
+          return false;
+        })
+        .slice(0, limit);
+
+      return due.map((job) => {
+        const claimed: Job = {
+          ...job,
+          status: 'running',
+          attempts: job.attempts + 1,
+          lockedUntil: new Date(now.getTime() + leaseMs).toISOString(),
+          updatedAt: nowIso,
+        };
+        jobs.set(job.id, claimed);
+        return claimed;
+      });
+    },
+
+    async updateJob(id, updates) {
+      const existing = jobs.get(id);
+      if (!existing) return null;
+
+      const updated = { ...existing, ...updates, id, updatedAt: new Date().toISOString() };
+      jobs.set(id, updated);
+      return updated;
+    },
+
+    async listJobs(options = {}) {
+      return Array.from(jobs.values())
+        .filter((job) => !options.status || job.status === options.status)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id)
+        .slice(0, options.limit ?? 100);
+    },
+  };
+}
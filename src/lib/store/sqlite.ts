@@ -0,0 +1,523 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Document, ImageAsset, Job, MediaRecord, PublishIntent, PublishRun } from '@/types';
+import { upgradeCategoryMetadata } from '../categories';
+import type { DocumentStore } from './index';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS documents (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL,
+    metadata TEXT,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS publish_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    document_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_publish_history_document
+    ON publish_history (document_id, created_at);
+
+  CREATE INDEX IF NOT EXISTS idx_publish_history_run
+    ON publish_history (json_extract(data, '$.runId'));
+
+  CREATE TABLE IF NOT EXISTS publish_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    data TEXT NOT NULL,
+    started_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS site_media (
+    site TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    media_id INTEGER NOT NULL,
+    media_url TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (site, content_hash)
+  );
+
+  -- Media uploaded before multi-site publishing; it all went to the default site
+  CREATE TABLE IF NOT EXISTS media_index (
+    content_hash TEXT PRIMARY KEY,
+    media_id INTEGER NOT NULL,
+    media_url TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  INSERT OR IGNORE INTO site_media (site, content_hash, media_id, media_url, created_at)
+    SELECT 'default', content_hash, media_id, media_url, created_at FROM media_index;
+  DELETE FROM media_index;
+
+  -- URLs inline images were downloaded from, so expired export links need no new download
+  CREATE TABLE IF NOT EXISTS media_sources (
+    site TEXT NOT NULL,
+    source_url TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    PRIMARY KEY (site, source_url)
+  );
+
+  -- Processed featured images, keyed by the Drive file ID of their source
+  CREATE TABLE IF NOT EXISTS image_assets (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    content BLOB NOT NULL,
+    thumbnail BLOB NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS locks (
+    name TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS publish_intents (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,
+    status TEXT NOT NULL,
+    dedupe_key TEXT,
+    run_at TEXT NOT NULL,
+    locked_until TEXT,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs (status, run_at);
+
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_active_dedupe
+    ON jobs (dedupe_key) WHERE status IN ('queued', 'running');
+`;
+
+interface DocumentRow {
+  id: string;
+  status: string;
+  data: string;
+  metadata: string | null;
+}
+
+interface HistoryRow {
+  id: number;
+  data: string;
+}
+
+interface JobRow {
+  id: number;
+  data: string;
+}
+
+interface MediaRow {
+  site: string;
+  content_hash: string;
+  media_id: number;
+  media_url: string;
+  drive_file_id: string | null;
+  drive_revision: string | null;
+  created_at: string;
+}
+
+function rowToMediaRecord(row: MediaRow): MediaRecord {
+  return {
+    site: row.site,
+    contentHash: row.content_hash,
+    mediaId: row.media_id,
+    mediaUrl: row.media_url,
+    driveFileId: row.drive_file_id ?? undefined,
+    driveRevision: row.drive_revision ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToJob(row: JobRow): Job {
+  return { ...JSON.parse(row.data), id: row.id };
+}
+
+function rowToDocument(row: DocumentRow): Document {
+  const doc = JSON.parse(row.data) as Document;
+  if (row.metadata) {
+    doc.metadata = upgradeCategoryMetadata(JSON.parse(row.metadata));
+  }
+  return doc;
+}
+
+/**
+ * SQLite-backed store. The database file (and its directory) is created on
+ * first use, so a fresh deployment only needs a writable path.
+ */
+export function createSqliteStore(filename: string): DocumentStore {
+  const dbPath = path.resolve(process.cwd(), filename);
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  // Columns added after site_media was first created
+  const mediaColumns = db.prepare<[], { name: string }>('PRAGMA table_info(site_media)').all().map((c) => c.name);
+  if (!mediaColumns.includes('drive_file_id')) {
+    db.exec('ALTER TABLE site_media ADD COLUMN drive_file_id TEXT; ALTER TABLE site_media ADD COLUMN drive_revision TEXT;');
+  }
+  db.exec('CREATE INDEX IF NOT EXISTS idx_site_media_drive ON site_media (site, drive_file_id, drive_revision)');
+
+  const selectDocument = db.prepare<[string], DocumentRow>(
+    'SELECT id, status, data, metadata FROM documents WHERE id = ?'
+  );
+  const selectDocuments = db.prepare<[], DocumentRow>(
+    'SELECT id, status, data, metadata FROM documents ORDER BY updated_at DESC'
+  );
+  const upsertDocument = db.prepare(
+    `INSERT INTO documents (id, status, data, metadata, updated_at)
+     VALUES (@id, @status, @data, @metadata, @updatedAt)
+     ON CONFLICT(id) DO UPDATE SET
+       status = excluded.status,
+       data = excluded.data,
+       metadata = excluded.metadata,
+       updated_at = excluded.updated_at`
+  );
+  const insertHistory = db.prepare(
+    'INSERT INTO publish_history (document_id, data, created_at) VALUES (?, ?, ?)'
+  );
+  // Run, row and post filters read the JSON payload, so rows written before
+  // those fields existed need no migration (they simply don't match)
+  const selectHistory = db.prepare<
+    { documentId: string | null; runId: number | null; sheetRowIndex: number | null; wpPostId: number | null; limit: number },
+    HistoryRow
+  >(
+    `SELECT id, data FROM publish_history
+     WHERE (@documentId IS NULL OR document_id = @documentId)
+       AND (@runId IS NULL OR json_extract(data, '$.runId') = @runId)
+       AND (@sheetRowIndex IS NULL OR json_extract(data, '$.sheetRowIndex') = @sheetRowIndex)
+       AND (@wpPostId IS NULL OR json_extract(data, '$.wpPostId') = @wpPostId)
+     ORDER BY created_at DESC, id DESC LIMIT @limit`
+  );
+
+  const insertRun = db.prepare('INSERT INTO publish_runs (data, started_at) VALUES (?, ?)');
+  const writeRun = db.prepare('UPDATE publish_runs SET data = ? WHERE id = ?');
+  const selectRun = db.prepare<[number], HistoryRow>('SELECT id, data FROM publish_runs WHERE id = ?');
+  const selectRuns = db.prepare<[number], HistoryRow>(
+    'SELECT id, data FROM publish_runs ORDER BY started_at DESC, id DESC LIMIT ?'
+  );
+
+  const selectMedia = db.prepare<[string, string], MediaRow>(
+    'SELECT * FROM site_media WHERE site = ? AND content_hash = ?'
+  );
+  const selectDriveMedia = db.prepare<[string, string, string], MediaRow>(
+    `SELECT * FROM site_media WHERE site = ? AND drive_file_id = ? AND drive_revision = ?
+     ORDER BY created_at DESC LIMIT 1`
+  );
+  const selectSourceMedia = db.prepare<[string, string], MediaRow>(
+    `SELECT m.* FROM media_sources s
+     JOIN site_media m ON m.site = s.site AND m.content_hash = s.content_hash
+     WHERE s.site = ? AND s.source_url = ?`
+  );
+  const upsertMediaSource = db.prepare(
+    `INSERT INTO media_sources (site, source_url, content_hash) VALUES (@site, @sourceUrl, @contentHash)
+     ON CONFLICT(site, source_url) DO UPDATE SET content_hash = excluded.content_hash`
+  );
+  const upsertMedia = db.prepare(
+    `INSERT INTO site_media (site, content_hash, media_id, media_url, drive_file_id, drive_revision, created_at)
+     VALUES (@site, @contentHash, @mediaId, @mediaUrl, @driveFileId, @driveRevision, @createdAt)
+     ON CONFLICT(site, content_hash) DO UPDATE SET
+       media_id = excluded.media_id,
+       media_url = excluded.media_url,
+       drive_file_id = COALESCE(excluded.drive_file_id, site_media.drive_file_id),
+       drive_revision = COALESCE(excluded.drive_revision, site_media.drive_revision),
+       created_at = excluded.created_at`
+  );
+
+  const selectAsset = db.prepare<[string], { data: string }>('SELECT data FROM image_assets WHERE id = ?');
+  const selectAssetContent = db.prepare<[string], { bytes: Buffer }>(
+    'SELECT content AS bytes FROM image_assets WHERE id = ?'
+  );
+  const selectAssetThumbnail = db.prepare<[string], { bytes: Buffer }>(
+    'SELECT thumbnail AS bytes FROM image_assets WHERE id = ?'
+  );
+  const upsertAsset = db.prepare(
+    `INSERT INTO image_assets (id, data, content, thumbnail, updated_at)
+     VALUES (@id, @data, @content, @thumbnail, @updatedAt)
+     ON CONFLICT(id) DO UPDATE SET
+       data = excluded.data,
+       content = excluded.content,
+       thumbnail = excluded.thumbnail,
+       updated_at = excluded.updated_at`
+  );
+
+  // Only replaces an expired lock or one the caller already owns (renewal)
+  const takeLock = db.prepare(
+    `INSERT INTO locks (name, owner, expires_at) VALUES (@name, @owner, @expiresAt)
+     ON CONFLICT(name) DO UPDATE SET owner = excluded.owner, expires_at = excluded.expires_at
+     WHERE locks.expires_at <= @now OR locks.owner = @owner`
+  );
+  const deleteLock = db.prepare('DELETE FROM locks WHERE name = ? AND owner = ?');
+
+  const selectIntent = db.prepare<[string], { data: string }>(
+    'SELECT data FROM publish_intents WHERE key = ?'
+  );
+  const upsertIntent = db.prepare(
+    `INSERT INTO publish_intents (key, data, updated_at) VALUES (@key, @data, @updatedAt)
+     ON CONFLICT(key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+  );
+
+  const insertJob = db.prepare(
+    `INSERT INTO jobs (type, status, dedupe_key, run_at, locked_until, data, created_at, updated_at)
+     VALUES (@type, @status, @dedupeKey, @runAt, @lockedUntil, @data, @createdAt, @updatedAt)`
+  );
+  const writeJob = db.prepare(
+    `UPDATE jobs SET status = @status, dedupe_key = @dedupeKey, run_at = @runAt,
+       locked_until = @lockedUntil, data = @data, updated_at = @updatedAt
+     WHERE id = @id`
+  );
+  const selectJob = db.prepare<[number], JobRow>('SELECT id, data FROM jobs WHERE id = ?');
+  const selectActiveJob = db.prepare<[string], JobRow>(
+    `SELECT id, data FROM jobs WHERE dedupe_key = ? AND status IN ('queued', 'running')`
+  );
+  const selectDueJobs = db.prepare<{ now: string; limit: number }, JobRow>(
+    `SELECT id, data FROM jobs
+     WHERE (status = 'queued' AND run_at <= @now) OR (status = 'running' AND locked_until <= @now)
+     ORDER BY run_at, id LIMIT @limit`
+  );
+  const selectJobs = db.prepare<{ status: string | null; limit: number }, JobRow>(
+    `SELECT id, data FROM jobs WHERE @status IS NULL OR status = @status
+     ORDER BY created_at DESC, id DESC LIMIT @limit`
+  );
+
+  const jobParams = (job: Omit<Job, 'id'>) => {
+    const { payload, attempts, maxAttempts, lastError, result, ...columns } = job;
+    return {
+      type: columns.type,
+      status: columns.status,
+      dedupeKey: columns.dedupeKey ?? null,
+      runAt: columns.runAt,
+      lockedUntil: columns.lockedUntil ?? null,
+      createdAt: columns.createdAt,
+      updatedAt: columns.updatedAt,
+      data: JSON.stringify({ ...columns, payload, attempts, maxAttempts, lastError, result }),
+    };
+  };
+
+  // IMMEDIATE transactions take the write lock up front, so two workers
+  // (even in different processes) never read the same due jobs
+  const enqueue = db.transaction((job: Omit<Job, 'id'>): Job => {
+    const active = job.dedupeKey ? selectActiveJob.get(job.dedupeKey) : undefined;
+    if (active) return rowToJob(active);
+
+    const info = insertJob.run(jobParams(job));
+    return { ...job, id: Number(info.lastInsertRowid) };
+  });
+
+  const claim = db.transaction((limit: number, leaseMs: number): Job[] => {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + leaseMs).toISOString();
+    const claimed: Job[] = [];
+
+    // Failing a job frees its slot in the batch, so look again until it is full
+    while (claimed.length < limit) {
+      const rows = selectDueJobs.all({ now: now.toISOString(), limit: limit - claimed.length });
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        const due = rowToJob(row);
+        // An expired lease means the worker died mid-attempt; that attempt counts
+        if (due.status === 'running' && due.attempts >= due.maxAttempts) {
+          const failed: Job = {
+            ...due,
+            status: 'failed',
+            lastError: `Worker stopped during attempt ${due.attempts}/${due.maxAttempts} (lease expired)`,
+            lockedUntil: undefined,
+            updatedAt: now.toISOString(),
+          };
+          writeJob.run({ ...jobParams(failed), id: failed.id });
+          continue;
+        }
+
+        const job: Job = {
+          ...due,
+          status: 'running',
+          attempts: due.attempts + 1,
+          lockedUntil,
+          updatedAt: now.toISOString(),
+        };
+        writeJob.run({ ...jobParams(job), id: job.id });
+        claimed.push(job);
+      }
+    }
+    return claimed;
+  });
+
+  const save = (doc: Document): Document => {
+    const { metadata, ...rest } = doc;
+    upsertDocument.run({
+      id: doc.id,
+      status: doc.status,
+      data: JSON.stringify(rest),
+      metadata: metadata ? JSON.stringify(metadata) : null,
+      updatedAt: new Date().toISOString(),
+    });
+    return doc;
+  };
+
+  return {
+    async getDocument(id) {
+      const row = selectDocument.get(id);
+      return row ? rowToDocument(row) : null;
+    },
+
+    async listDocuments() {
+      return selectDocuments.all().map(rowToDocument);
+    },
+
+    async saveDocument(doc) {
+      return save(doc);
+    },
+
+    async updateDocument(id, updates) {
+      const row = selectDocument.get(id);
+      if (!row) return null;
+
+      return save({ ...rowToDocument(row), ...updates, id });
+    },
+
+    async addPublishHistory(entry) {
+      const info = insertHistory.run(entry.documentId, JSON.stringify(entry), entry.createdAt);
+      return { ...entry, id: Number(info.lastInsertRowid) };
+    },
+
+    async listPublishHistory(filter) {
+      return selectHistory
+        .all({
+          documentId: filter.documentId ?? null,
+          runId: filter.runId ?? null,
+          sheetRowIndex: filter.sheetRowIndex ?? null,
+          wpPostId: filter.wpPostId ?? null,
+          limit: filter.limit ?? 500,
+        })
+        .map((row) => ({ ...JSON.parse(row.data), id: row.id }));
+    },
+
+    async createPublishRun(run) {
+      const info = insertRun.run(JSON.stringify(run), run.startedAt);
+      return { ...run, id: Number(info.lastInsertRowid) };
+    },
+
+    async updatePublishRun(id, updates) {
+      const row = selectRun.get(id);
+      if (!row) return null;
+
+      const run: PublishRun = { ...JSON.parse(row.data), ...updates, id };
+      writeRun.run(JSON.stringify(run), id);
+      return run;
+    },
+
+    async getPublishRun(id) {
+      const row = selectRun.get(id);
+      return row ? { ...JSON.parse(row.data), id: row.id } : null;
+    },
+
+    async listPublishRuns(options = {}) {
+      return selectRuns.all(options.limit ?? 100).map((row) => ({ ...JSON.parse(row.data), id: row.id }));
+    },
+
+    async findMediaByHash(site, contentHash) {
+      const row = selectMedia.get(site, contentHash);
+      return row ? rowToMediaRecord(row) : null;
+    },
+
+    async findMediaByDriveFile(site, driveFileId, driveRevision) {
+      const row = selectDriveMedia.get(site, driveFileId, driveRevision);
+      return row ? rowToMediaRecord(row) : null;
+    },
+
+    async findMediaBySource(site, sourceUrl) {
+      const row = selectSourceMedia.get(site, sourceUrl);
+      return row ? rowToMediaRecord(row) : null;
+    },
+
+    async saveMediaRecord(record) {
+      const { sourceUrl, ...media } = record;
+      upsertMedia.run({ ...media, driveFileId: media.driveFileId ?? null, driveRevision: media.driveRevision ?? null });
+      if (sourceUrl) upsertMediaSource.run({ site: record.site, sourceUrl, contentHash: record.contentHash });
+    },
+
+    async getAsset(id) {
+      const row = selectAsset.get(id);
+      return row ? (JSON.parse(row.data) as ImageAsset) : null;
+    },
+
+    async getAssetData(id, variant) {
+      const row = (variant === 'thumbnail' ? selectAssetThumbnail : selectAssetContent).get(id);
+      return row ? row.bytes : null;
+    },
+
+    async saveAsset(asset, data, thumbnail) {
+      upsertAsset.run({
+        id: asset.id,
+        data: JSON.stringify(asset),
+        content: data,
+        thumbnail,
+        updatedAt: new Date().toISOString(),
+      });
+    },
+
+    async acquireLock(name, owner, ttlMs) {
+      const now = Date.now();
+      const info = takeLock.run({ name, owner, expiresAt: now + ttlMs, now });
+      return info.changes > 0;
+    },
+
+    async releaseLock(name, owner) {
+      deleteLock.run(name, owner);
+    },
+
+    async getPublishIntent(key) {
+      const row = selectIntent.get(key);
+      return row ? (JSON.parse(row.data) as PublishIntent) : null;
+    },
+
+    async savePublishIntent(intent) {
+      upsertIntent.run({ key: intent.key, data: JSON.stringify(intent), updatedAt: intent.updatedAt });
+    },
+
+    async enqueueJob(newJob) {
+      const now = new Date().toISOString();
+      return enqueue.immediate({
+        ...newJob,
+        status: 'queued',
+        attempts: 0,
+        runAt: newJob.runAt || now,
+        createdAt: now,
+        updatedAt: now,
+      });
+    },
+
+    async claimJobs(limit, leaseMs) {
+      return claim.immediate(limit, leaseMs);
+    },
+
+    async updateJob(id, updates) {
+      const row = selectJob.get(id);
+      if (!row) return null;
+
+      const job: Job = { ...rowToJob(row), ...updates, id, updatedAt: new Date().toISOString() };
+      writeJob.run({ ...jobParams(job), id });
+      return job;
+    },
+
+    async listJobs(options = {}) {
+      return selectJobs
+        .all({ status: options.status ?? null, limit: options.limit ?? 100 })
+        .map(rowToJob);
+    },
+  };
+}
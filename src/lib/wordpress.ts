@@ -1,279 +1,701 @@
-import { WordPressPost, PublishResult } from '@/types';
+import {
+  Document,
+  MediaLibraryItem,
+  PublishResult,
+  SitePost,
+  WordPressCategory,
+  WordPressPost,
+  WordPressTag,
+  WordPressUser,
+} from '@/types';
+import { decodeTermName, parseCategoryPath } from './categories';
+
+// The site configured by the unprefixed WORDPRESS_URL / WORDPRESS_USERNAME / WORDPRESS_APP_PASSWORD
+export const DEFAULT_SITE = 'default';
+
+export interface WordPressSiteProfile {
+  name: string; // Lowercase; used in the sheet "Sites" column, the API and the publish history
+  label: string;
+  url: string;
+  username: string;
+  appPassword: string;
+}
+
+// Env var prefix for a named site: "brand-blog" → WORDPRESS_BRAND_BLOG_
+function getEnvPrefix(name: string): string {
+  return name === DEFAULT_SITE ? 'WORDPRESS_' : `WORDPRESS_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_`;
+}
 
-const getAuthHeader = () => {
-  const username = process.env.WORDPRESS_USERNAME;
-  const password = process.env.WORDPRESS_APP_PASSWORD;
+function readProfile(name: string, defaultLabel: string): WordPressSiteProfile {
+  const prefix = getEnvPrefix(name);
+  return {
+    name,
+    label: process.env[`${prefix}LABEL`] || defaultLabel,
+    url: (process.env[`${prefix}URL`] || '').replace(/\/+$/, ''),
+    username: process.env[`${prefix}USERNAME`] || '',
+    appPassword: process.env[`${prefix}APP_PASSWORD`] || '',
+  };
+}
+
+/**
+ * Site profiles from the environment. The unprefixed WORDPRESS_* variables
+ * are the "default" site; each name in WORDPRESS_SITES (comma-separated)
+ * adds a site read from WORDPRESS_<NAME>_URL, _USERNAME, _APP_PASSWORD and
+ * an optional _LABEL.
+ */
+export function getSiteProfiles(): WordPressSiteProfile[] {
+  const names = (process.env.WORDPRESS_SITES || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name, index, all) => name && name !== DEFAULT_SITE && all.indexOf(name) === index);
+
+  const profiles = names.map((name) => readProfile(name, name));
+  if (process.env.WORDPRESS_URL || profiles.length === 0) {
+    profiles.unshift(readProfile(DEFAULT_SITE, 'Default site'));
+  }
+  return profiles;
+}
 
-  if (!username || !password) {
-    throw new Error('WordPress credentials not configured');
+export function getSiteProfile(name: string): WordPressSiteProfile {
+  const profile = getSiteProfiles().find((site) => site.name === name.trim().toLowerCase());
+  if (!profile) {
+    throw new Error(`Unknown WordPress site "${name}"`);
   }
+  return profile;
+}
 
-  const credentials = Buffer.from(`${username}:${password}`).toString('base64');
-  return `Basic ${credentials}`;
-};
+/**
+ * The sites of the staging → production workflow, or null when it isn't
+ * enabled. WORDPRESS_STAGING_SITE turns it on; WORDPRESS_PRODUCTION_SITE
+ * defaults to the default site.
+ */
+export function getPromotionSites(): { staging: string; production: string } | null {
+  const staging = process.env.WORDPRESS_STAGING_SITE?.trim().toLowerCase();
+  if (!staging) return null;
 
-const getApiUrl = (endpoint: string) => {
-  const baseUrl = process.env.WORDPRESS_URL;
-  if (!baseUrl) {
-    throw new Error('WORDPRESS_URL not configured');
+  const production = (process.env.WORDPRESS_PRODUCTION_SITE || DEFAULT_SITE).trim().toLowerCase();
+  if (staging === production) {
+    throw new Error('WORDPRESS_STAGING_SITE and WORDPRESS_PRODUCTION_SITE must name different sites');
   }
-  return `${baseUrl}/wp-json/wp/v2/${endpoint}`;
-};
-
-export async function createPost(post: WordPressPost): Promise<PublishResult> {
-  try {
-    // Build the post data, only including defined fields
-    const postData: Record<string, any> = {
-      title: post.title,
-      content: post.content,
-      excerpt: post.excerpt,
-      status: post.status,
-    };
+  return { staging: getSiteProfile(staging).name, production: getSiteProfile(production).name };
+}
 
-    if (post.slug) postData.slug = post.slug;
-    if (post.author) postData.author = post.author;
-    if (post.date) postData.date = post.date;
-    if (post.categories) postData.categories = post.categories;
-    if (post.tags) postData.tags = post.tags;
-    if (post.format) postData.format = post.format;
-    if (post.featured_media) postData.featured_media = post.featured_media;
-    if (post.meta) postData.meta = post.meta;
+/**
+ * Where documents go when they don't name a site: the staging site when
+ * promotion is enabled, otherwise the first configured site
+ */
+export function getDefaultSite(): string {
+  return getPromotionSites()?.staging || getSiteProfiles()[0].name;
+}
 
-    const response = await fetch(getApiUrl('posts'), {
-      method: 'POST',
+/**
+ * Validates the sites a document or row asks for; none means the default
+ * site. Duplicates are dropped, order is kept.
+ */
+export function resolveTargetSites(names?: string[]): string[] {
+  const requested = (names || []).map((name) => name.trim().toLowerCase()).filter(Boolean);
+  if (requested.length === 0) {
+    return [getDefaultSite()];
+  }
+  return Array.from(new Set(requested.map((name) => getSiteProfile(name).name)));
+}
+
+/**
+ * A document's post on every site it has been published to. Documents
+ * published before multi-site support only carry wpPostId & co., which
+ * belong to the default site.
+ */
+export function getSitePosts(doc: Partial<Document> | null | undefined): Record<string, SitePost> {
+  if (doc?.wpPosts) return doc.wpPosts;
+  if (!doc?.wpPostId) return {};
+
+  return {
+    [DEFAULT_SITE]: {
+      postId: doc.wpPostId,
+      postUrl: doc.wpPostUrl,
+      status: doc.wpStatus,
+      publishedAt: doc.wpPublishedAt,
+    },
+  };
+}
+
+export function getWordPressClient(site: string = getDefaultSite()): WordPressClient {
+  return new WordPressClient(getSiteProfile(site));
+}
+
+/**
+ * The media library item a link made by WordPressClient.getMediaLink points
+ * at (e.g. a Photo Link picked from the library), or null for other links
+ */
+export function parseMediaLink(link: string | undefined): { site: string; mediaId: number } | null {
+  const match = link?.match(/[?&]attachment_id=(\d+)/);
+  if (!link || !match) return null;
+
+  const site = getSiteProfiles().find((profile) => new WordPressClient(profile).isOwnUrl(link));
+  return site ? { site: site.name, mediaId: parseInt(match[1], 10) } : null;
+}
+
+type Taxonomy = 'categories' | 'tags';
+
+// Categories and tags per site, kept briefly so publishing a batch of posts
+// doesn't page through every term for each one. Terms created through a
+// client are added as they are made; edits made in WordPress show up once
+// the entry expires.
+const TAXONOMY_CACHE_TTL_MS = 60 * 1000;
+const taxonomyCache = new Map<string, { expiresAt: number; terms: Promise<Array<WordPressCategory | WordPressTag>> }>();
+
+function toPublishResult(post: { id: number; link: string; status: string; date_gmt: string | null }): PublishResult {
+  return {
+    success: true,
+    postId: post.id,
+    postUrl: post.link,
+    postStatus: post.status,
+    // date_gmt has no zone suffix; WordPress leaves it empty for drafts
+    publishedAt: post.date_gmt && post.status !== 'draft' ? new Date(`${post.date_gmt}Z`).toISOString() : undefined,
+  };
+}
+
+export interface MediaUploadResult {
+  success: boolean;
+  mediaId?: number;
+  mediaUrl?: string;
+  error?: string;
+}
+
+// A post as stored in WordPress (context=edit), used to copy it to another site
+export interface StoredPost {
+  id: number;
+  link: string;
+  status: string;
+  date: string;
+  slug: string;
+  title: { raw: string };
+  content: { raw: string };
+  excerpt: { raw: string };
+  categories: number[];
+  tags: number[];
+  featured_media: number;
+  format: string;
+  meta?: Record<string, unknown>;
+}
+
+export interface StoredMedia {
+  id: number;
+  source_url: string;
+  alt_text: string;
+  caption: { raw: string };
+  title: { raw: string };
+}
+
+// A post found by slug lookup; meta carries the auto-publish idempotency key
+export interface ExistingPost {
+  id: number;
+  link: string;
+  status: string;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * REST API client for one WordPress site, authenticated with an application password
+ */
+export class WordPressClient {
+  constructor(readonly site: WordPressSiteProfile) {}
+
+  get name(): string {
+    return this.site.name;
+  }
+
+  private getAuthHeader(): string {
+    if (!this.site.username || !this.site.appPassword) {
+      throw new Error(`WordPress credentials not configured for site "${this.site.name}"`);
+    }
+
+    const credentials = Buffer.from(`${this.site.username}:${this.site.appPassword}`).toString('base64');
+    return `Basic ${credentials}`;
+  }
+
+  private getApiUrl(endpoint: string): string {
+    if (!this.site.url) {
+      throw new Error(`${getEnvPrefix(this.site.name)}URL not configured`);
+    }
+    return `${this.site.url}/wp-json/wp/v2/${endpoint}`;
+  }
+
+  /**
+   * Whether a URL points at this site (e.g. an image already in its media library)
+   */
+  isOwnUrl(url: string): boolean {
+    if (!this.site.url) return false;
+
+    try {
+      return new URL(url).host === new URL(this.site.url).host;
+    } catch {
+      return false;
+    }
+  }
+
+  async createPost(post: WordPressPost): Promise<PublishResult> {
+    try {
+      // Build the post data, only including defined fields
+      const postData: Record<string, any> = {
+        title: post.title,
+        content: post.content,
+        excerpt: post.excerpt,
+        status: post.status,
+      };
+
+      if (post.slug) postData.slug = post.slug;
+      if (post.author) postData.author = post.author;
+      if (post.date) postData.date = post.date;
+      if (post.categories) postData.categories = post.categories;
+      if (post.tags) postData.tags = post.tags;
+      if (post.format) postData.format = post.format;
+      if (post.featured_media) postData.featured_media = post.featured_media;
+      if (post.meta) postData.meta = post.meta;
+
+      const response = await fetch(this.getApiUrl('posts'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: this.getAuthHeader(),
+        },
+        body: JSON.stringify(postData),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`WordPress API error: ${response.status} - ${error}`);
+      }
+
+      const result = await response.json();
+
+      return toPublishResult(result);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async updatePost(
+    postId: number,
+    post: Partial<WordPressPost>
+  ): Promise<PublishResult> {
+    try {
+      const response = await fetch(this.getApiUrl(`posts/${postId}`), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: this.getAuthHeader(),
+        },
+        body: JSON.stringify(post),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`WordPress API error: ${response.status} - ${error}`);
+      }
+
+      const result = await response.json();
+
+      return toPublishResult(result);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Reads a post with its raw (unrendered) fields
+   */
+  async getPost(postId: number): Promise<StoredPost> {
+    const response = await fetch(this.getApiUrl(`posts/${postId}?context=edit`), {
       headers: {
-        'Content-Type': 'application/json',
-        Authorization: getAuthHeader(),
+        Authorization: this.getAuthHeader(),
       },
-      body: JSON.stringify(postData),
     });
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`WordPress API error: ${response.status} - ${error}`);
+      throw new Error(`Failed to fetch post ${postId} from ${this.site.name}: ${response.status}`);
     }
 
-    const result = await response.json();
+    return response.json();
+  }
 
-    return {
-      success: true,
-      postId: result.id,
-      postUrl: result.link,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+  async getMedia(mediaId: number): Promise<StoredMedia> {
+    const response = await fetch(this.getApiUrl(`media/${mediaId}?context=edit`), {
+      headers: {
+        Authorization: this.getAuthHeader(),
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch media ${mediaId} from ${this.site.name}: ${response.status}`);
+    }
+
+    return response.json();
   }
-}
 
-export async function updatePost(
-  postId: number,
-  post: Partial<WordPressPost>
-): Promise<PublishResult> {
-  try {
-    const response = await fetch(getApiUrl(`posts/${postId}`), {
-      method: 'PUT',
+  /**
+   * A page of the images in the media library, newest first, optionally
+   * filtered by a search term (matched against title, caption and filename)
+   */
+  async searchMedia(
+    options: { search?: string; page?: number; perPage?: number } = {}
+  ): Promise<{ items: MediaLibraryItem[]; totalPages: number }> {
+    const params = new URLSearchParams({
+      media_type: 'image',
+      page: String(options.page || 1),
+      per_page: String(options.perPage || 24),
+      _fields: 'id,source_url,alt_text,title,media_details',
+    });
+    if (options.search) params.set('search', options.search);
+
+    const response = await fetch(this.getApiUrl(`media?${params}`), {
       headers: {
-        'Content-Type': 'application/json',
-        Authorization: getAuthHeader(),
+        Authorization: this.getAuthHeader(),
       },
-      body: JSON.stringify(post),
     });
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`WordPress API error: ${response.status} - ${error}`);
+      throw new Error(`Failed to search media on ${this.site.name}: ${response.status}`);
     }
 
-    const result = await response.json();
+    const media: Array<{
+      id: number;
+      source_url: string;
+      alt_text: string;
+      title: { rendered: string };
+      media_details?: { sizes?: Record<string, { source_url: string }> };
+    }> = await response.json();
 
     return {
-      success: true,
-      postId: result.id,
-      postUrl: result.link,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      items: media.map((item) => ({
+        id: item.id,
+        url: item.source_url,
+        thumbnailUrl: item.media_details?.sizes?.medium?.source_url
+          || item.media_details?.sizes?.thumbnail?.source_url
+          || item.source_url,
+        title: item.title.rendered,
+        altText: item.alt_text,
+      })),
+      totalPages: parseInt(response.headers.get('X-WP-TotalPages') || '1', 10),
     };
   }
-}
 
-export async function getCategories(): Promise<Array<{ id: number; name: string; slug: string }>> {
-  const response = await fetch(getApiUrl('categories?per_page=100'), {
-    headers: {
-      Authorization: getAuthHeader(),
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error('Failed to fetch categories');
+  /**
+   * A link to a media library item that parseMediaLink can read back
+   * (WordPress redirects it to the attachment page)
+   */
+  getMediaLink(mediaId: number): string {
+    return `${this.site.url}/?attachment_id=${mediaId}`;
   }
 
-  return response.json();
-}
+  /**
+   * Finds posts (any status) that already use a slug
+   */
+  async findPostsBySlug(
+    slug: string
+  ): Promise<ExistingPost[]> {
+    const params = new URLSearchParams({
+      slug,
+      status: 'publish,future,draft,pending,private',
+      _fields: 'id,link,status,meta',
+    });
+    const response = await fetch(this.getApiUrl(`posts?${params}`), {
+      headers: {
+        Authorization: this.getAuthHeader(),
+      },
+    });
 
-export async function createCategory(name: string): Promise<{ id: number; name: string; slug: string }> {
-  const response = await fetch(getApiUrl('categories'), {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: getAuthHeader(),
-    },
-    body: JSON.stringify({ name }),
-  });
+    if (!response.ok) {
+      throw new Error('Failed to look up posts by slug');
+    }
 
-  if (!response.ok) {
-    throw new Error('Failed to create category');
+    return response.json();
   }
 
-  return response.json();
-}
+  /**
+   * Every item of a collection endpoint (e.g. "tags"), following
+   * X-WP-TotalPages; WordPress returns at most 100 items per page
+   */
+  private async getAllPages<T>(endpoint: string): Promise<T[]> {
+    const items: T[] = [];
+    let totalPages = 1;
+
+    for (let page = 1; page <= totalPages; page++) {
+      const params = new URLSearchParams({ per_page: '100', page: String(page) });
+      const response = await fetch(this.getApiUrl(`${endpoint}?${params}`), {
+        headers: {
+          Authorization: this.getAuthHeader(),
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${endpoint} from ${this.site.name}: ${response.status}`);
+      }
+
+      items.push(...(await response.json()));
+      totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '1', 10) || 1;
+    }
 
-export async function getTags(): Promise<Array<{ id: number; name: string; slug: string }>> {
-  const response = await fetch(getApiUrl('tags?per_page=100'), {
-    headers: {
-      Authorization: getAuthHeader(),
-    },
-  });
+    return items;
+  }
+
+  private getTerms(taxonomy: Taxonomy): Promise<Array<WordPressCategory | WordPressTag>> {
+    const key = `${this.site.name}:${taxonomy}`;
+    const cached = taxonomyCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.terms;
+    }
 
-  if (!response.ok) {
-    throw new Error('Failed to fetch tags');
+    const terms = this.getAllPages<WordPressCategory | WordPressTag>(taxonomy);
+    taxonomyCache.set(key, { expiresAt: Date.now() + TAXONOMY_CACHE_TTL_MS, terms });
+    // A failed fetch isn't kept for the next caller
+    terms.catch(() => {
+      if (taxonomyCache.get(key)?.terms === terms) taxonomyCache.delete(key);
+    });
+    return terms;
   }
 
-  return response.json();
-}
+  /**
+   * Creates a term and adds it to the cached list. A term that already
+   * exists (WordPress's term_exists error, e.g. one added since the list
+   * was cached) is returned instead.
+   */
+  private async createTerm(
+    taxonomy: Taxonomy,
+    name: string,
+    parent?: number
+  ): Promise<WordPressCategory | WordPressTag> {
+    const response = await fetch(this.getApiUrl(taxonomy), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: this.getAuthHeader(),
+      },
+      body: JSON.stringify(parent ? { name, parent } : { name }),
+    });
 
-export async function createTag(name: string): Promise<{ id: number; name: string; slug: string }> {
-  const response = await fetch(getApiUrl('tags'), {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: getAuthHeader(),
-    },
-    body: JSON.stringify({ name }),
-  });
+    let term: WordPressCategory | WordPressTag;
+    if (response.ok) {
+      term = await response.json();
+    } else {
+      const error = await response.json().catch(() => null);
+      const existingId: number | undefined = error?.code === 'term_exists' ? error.data?.term_id : undefined;
+      if (!existingId) {
+        throw new Error(
+          `Failed to create ${taxonomy === 'categories' ? 'category' : 'tag'} "${name}" on ${this.site.name}: ${response.status}${error?.message ? ` - ${error.message}` : ''}`
+        );
+      }
+
+      const existing = await fetch(this.getApiUrl(`${taxonomy}/${existingId}`), {
+        headers: {
+          Authorization: this.getAuthHeader(),
+        },
+      });
+      if (!existing.ok) {
+        throw new Error(`Failed to fetch existing ${taxonomy} ${existingId} from ${this.site.name}: ${existing.status}`);
+      }
+      term = await existing.json();
+    }
 
-  if (!response.ok) {
-    throw new Error('Failed to create tag');
+    const cached = taxonomyCache.get(`${this.site.name}:${taxonomy}`);
+    if (cached) {
+      cached.terms = cached.terms.then((terms) => (terms.some((t) => t.id === term.id) ? terms : [...terms, term]));
+    }
+    return term;
   }
 
-  return response.json();
-}
+  async getCategories(): Promise<WordPressCategory[]> {
+    return this.getTerms('categories') as Promise<WordPressCategory[]>;
+  }
 
-export async function getOrCreateCategory(name: string): Promise<number> {
-  const categories = await getCategories();
-  const existing = categories.find(
-    (c) => c.name.toLowerCase() === name.toLowerCase()
-  );
+  async createCategory(name: string, parent?: number): Promise<WordPressCategory> {
+    return this.createTerm('categories', name, parent) as Promise<WordPressCategory>;
+  }
 
-  if (existing) {
-    return existing.id;
+  async getTags(): Promise<WordPressTag[]> {
+    return this.getTerms('tags');
   }
 
-  const newCategory = await createCategory(name);
-  return newCategory.id;
-}
+  async createTag(name: string): Promise<WordPressTag> {
+    return this.createTerm('tags', name);
+  }
 
-export async function getOrCreateTags(names: string[]): Promise<number[]> {
-  const existingTags = await getTags();
-  const tagIds: number[] = [];
+  /**
+   * The category a path ("Investing > Index Funds") names, creating any
+   * missing level under its parent. Returns the deepest category's ID.
+   */
+  async getOrCreateCategory(path: string): Promise<number> {
+    const categories = await this.getCategories();
+    let parent = 0;
+
+    for (const name of parseCategoryPath(path)) {
+      const existing = categories.find(
+        (c) => (c.parent || 0) === parent && decodeTermName(c.name).toLowerCase() === name.toLowerCase()
+      );
+      parent = (existing || (await this.createCategory(name, parent || undefined))).id;
+    }
 
-  for (const name of names) {
-    const existing = existingTags.find(
-      (t) => t.name.toLowerCase() === name.toLowerCase()
-    );
+    if (!parent) {
+      throw new Error(`Invalid category "${path}"`);
+    }
+    return parent;
+  }
 
-    if (existing) {
-      tagIds.push(existing.id);
-    } else {
-      const newTag = await createTag(name);
-      tagIds.push(newTag.id);
+  async getOrCreateCategories(paths: string[]): Promise<number[]> {
+    const ids: number[] = [];
+    for (const path of paths) {
+      const id = await this.getOrCreateCategory(path);
+      if (!ids.includes(id)) ids.push(id);
     }
+    return ids;
   }
 
-  return tagIds;
-}
+  async getOrCreateTags(names: string[]): Promise<number[]> {
+    const existingTags = await this.getTags();
+    const tagIds: number[] = [];
+
+    for (const name of names) {
+      const existing = existingTags.find(
+        (t) => decodeTermName(t.name).toLowerCase() === name.toLowerCase()
+      );
+
+      if (existing) {
+        tagIds.push(existing.id);
+      } else {
+        const newTag = await this.createTag(name);
+        tagIds.push(newTag.id);
+      }
+    }
 
-export interface MediaUploadResult {
-  success: boolean;
-  mediaId?: number;
-  mediaUrl?: string;
-  error?: string;
-}
+    return tagIds;
+  }
 
-/**
- * Uploads an image to the WordPress media library
- */
-export async function uploadMedia(
-  imageBuffer: Buffer,
-  filename: string,
-  mimeType: string
-): Promise<MediaUploadResult> {
-  try {
-    const baseUrl = process.env.WORDPRESS_URL;
-    if (!baseUrl) {
-      throw new Error('WORDPRESS_URL not configured');
+  async getUsers(): Promise<WordPressUser[]> {
+    let users: Array<{ id: number; name: string; slug: string }>;
+    try {
+      users = await this.getAllPages('users');
+    } catch {
+      return [];
     }
 
-    // Convert Buffer to Uint8Array for fetch compatibility
-    const uint8Array = new Uint8Array(imageBuffer);
+    return users.map((u) => ({
+      id: u.id,
+      name: u.name,
+      slug: u.slug,
+    }));
+  }
 
-    // WordPress expects the Content-Disposition header with filename
-    const response = await fetch(`${baseUrl}/wp-json/wp/v2/media`, {
-      method: 'POST',
-      headers: {
-        Authorization: getAuthHeader(),
-        'Content-Type': mimeType,
-        'Content-Disposition': `attachment; filename="${encodeURIComponent(filename)}"`,
-      },
-      body: uint8Array,
-    });
+  /**
+   * Uploads an image to the WordPress media library
+   */
+  async uploadMedia(
+    imageBuffer: Buffer,
+    filename: string,
+    mimeType: string
+  ): Promise<MediaUploadResult> {
+    try {
+      // Convert Buffer to Uint8Array for fetch compatibility
+      const uint8Array = new Uint8Array(imageBuffer);
+
+      // WordPress expects the Content-Disposition header with filename
+      const response = await fetch(this.getApiUrl('media'), {
+        method: 'POST',
+        headers: {
+          Authorization: this.getAuthHeader(),
+          'Content-Type': mimeType,
+          'Content-Disposition': `attachment; filename="${encodeURIComponent(filename)}"`,
+        },
+        body: uint8Array,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        return {
+          success: false,
+          error: `WordPress media upload failed: ${response.status} - ${errorText}`,
+        };
+      }
+
+      const result = await response.json();
 
-    if (!response.ok) {
-      const errorText = await response.text();
+      return {
+        success: true,
+        mediaId: result.id,
+        mediaUrl: result.source_url,
+      };
+    } catch (error) {
       return {
         success: false,
-        error: `WordPress media upload failed: ${response.status} - ${errorText}`,
+        error: error instanceof Error ? error.message : 'Media upload failed',
       };
     }
-
-    const result = await response.json();
-
-    return {
-      success: true,
-      mediaId: result.id,
-      mediaUrl: result.source_url,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Media upload failed',
-    };
   }
-}
 
-export async function testConnection(): Promise<{ success: boolean; error?: string }> {
-  try {
-    const response = await fetch(getApiUrl('users/me'), {
-      headers: {
-        Authorization: getAuthHeader(),
-      },
-    });
+  /**
+   * Updates descriptive fields (alt text, caption, title) on a media item
+   */
+  async updateMedia(
+    mediaId: number,
+    fields: { alt_text?: string; caption?: string; title?: string }
+  ): Promise<MediaUploadResult> {
+    try {
+      const response = await fetch(this.getApiUrl(`media/${mediaId}`), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: this.getAuthHeader(),
+        },
+        body: JSON.stringify(fields),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        return {
+          success: false,
+          error: `WordPress media update failed: ${response.status} - ${errorText}`,
+        };
+      }
+
+      const result = await response.json();
 
-    if (!response.ok) {
-      const error = await response.text();
-      return { success: false, error: `Authentication failed: ${error}` };
+      return {
+        success: true,
+        mediaId: result.id,
+        mediaUrl: result.source_url,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Media update failed',
+      };
     }
+  }
 
-    return { success: true };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Connection failed',
-    };
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await fetch(this.getApiUrl('users/me'), {
+        headers: {
+          Authorization: this.getAuthHeader(),
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        return { success: false, error: `Authentication failed: ${error}` };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Connection failed',
+      };
+    }
   }
 }
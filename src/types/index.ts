@@ -9,39 +9,91 @@ export interface Document {
   content?: string;
   metadata?: DocumentMetadata;
   error?: string;
-  // WordPress tracking
+  processedAt?: string;
+  // WordPress tracking; these mirror the post on the first target site
   wpPostId?: number;
   wpPostUrl?: string;
   wpStatus?: 'draft' | 'publish';
   wpPublishedAt?: string;
+  targetSites?: string[]; // WordPress site profiles to publish to; unset = the first configured site
+  wpPosts?: Record<string, SitePost>; // Post on each site, keyed by site name
   // Sheet tracking
   sheetRowIndex?: number; // Row index in Content Repo for updates
+  driveFileId?: string; // Google Doc behind the row's Blog Link
+  contentRevision?: string; // Drive revision `content` was processed from
+  outOfSyncSites?: string[]; // Sites whose post predates the latest Google Doc edit (set when listing)
 }
 
+// How post content is sent to WordPress: classic HTML or serialized Gutenberg blocks
+export type ContentFormat = 'classic' | 'blocks';
+
 export interface DocumentMetadata {
   title: string;
   slug: string;
   description: string;
   excerpt: string;
-  category: string;
+  categories: string[]; // Category paths, parent first: "Investing > Index Funds"
   tags: string[];
   author: string;
   authorId?: number;
   publishDate: string;
-  featuredImage?: string;
+  featuredImage?: string; // URL of a media library image picked as the Photo Link, for the preview
   featuredImageId?: number; // WordPress media library ID
-  photoLink?: string; // Google Drive link to featured image
-  // Downloaded image data for preview (populated during processing)
-  featuredImageData?: string; // Base64 encoded image data
-  featuredImageMimeType?: string; // e.g., 'image/jpeg'
-  featuredImageName?: string; // Original filename
+  photoLink?: string; // Google Drive link to featured image, or a media library item picked for it
+  // Processed image in the server-side asset cache (populated during processing)
+  featuredImageAssetId?: string; // Drive file ID of the image; see ImageAsset
+  featuredImageMimeType?: string; // e.g., 'image/webp'
+  featuredImageName?: string; // Filename it is uploaded as
+  featuredImageAlt?: string; // Alt text set on the WordPress media item
+  featuredImageCaption?: string; // Caption set on the WordPress media item
   seoTitle?: string;
   seoDescription?: string;
+  contentFormat?: ContentFormat; // Overrides WORDPRESS_CONTENT_FORMAT for this post
   format: 'standard' | 'aside' | 'gallery' | 'link' | 'image' | 'quote' | 'status' | 'video' | 'audio' | 'chat';
-  // Source tracking
-  metadataSource?: 'sheet' | 'ai' | 'manual';
+  // Source tracking, per field
+  metadataSources?: MetadataSources;
+}
+
+// Where a metadata value came from: the Content Repo sheet, the document itself
+// (e.g. its first heading), the AI, or a human edit in the admin
+export type MetadataSource = 'sheet' | 'document' | 'ai' | 'manual';
+
+export type MetadataField =
+  | 'title'
+  | 'slug'
+  | 'description'
+  | 'excerpt'
+  | 'categories'
+  | 'tags'
+  | 'author'
+  | 'seoTitle'
+  | 'seoDescription';
+
+export type MetadataSources = Partial<Record<MetadataField, MetadataSource>>;
+
+// A document's post on one WordPress site
+export interface SitePost {
+  postId: number;
+  postUrl?: string;
+  status?: 'draft' | 'publish';
+  publishedAt?: string;
+  updatedAt?: string; // When this app last wrote the post
+  revision?: string; // Drive revision of the Google Doc the post was published from
+  publishedContent?: string; // Post content as this app last sent it, to spot edits made in WordPress
+}
+
+// A post whose content was edited in WordPress after this app last wrote it
+export interface WordPressEdits {
+  site: string;
+  postId: number;
+  published: string; // Content as last sent from here
+  live: string; // Content in WordPress now
 }
 
+// What to do with WordPress edits when re-publishing: keep the post's content
+// as edited there (the rest of the post is still updated) or overwrite it
+export type WordPressEditsResolution = 'keep' | 'overwrite';
+
 export interface WordPressPost {
   id?: number;
   title: string;
@@ -88,7 +140,204 @@ export interface PublishResult {
   success: boolean;
   postId?: number;
   postUrl?: string;
+  postStatus?: string; // Status WordPress reports (publish, future, draft, ...)
+  publishedAt?: string; // ISO timestamp of the post date; unset for drafts
+  error?: string;
+}
+
+// Outcome of publishing a document to one of its target sites
+export interface SitePublishResult {
+  site: string;
+  success: boolean;
+  postId?: number;
+  postUrl?: string;
+  error?: string;
+}
+
+export interface PublishHistoryEntry {
+  id: number;
+  documentId: string;
+  source: 'manual' | 'auto-publish' | 'promotion';
+  action: 'create' | 'update';
+  success: boolean;
+  runId?: number;
+  jobId?: number;
+  sheetRowIndex?: number;
+  driveFileId?: string; // The article the row linked to; rows can be moved later
+  title?: string;
+  site?: string; // WordPress site profile; unset on entries from before multi-site publishing
+  wpPostId?: number;
+  wpPostUrl?: string;
+  wpStatus?: 'draft' | 'publish';
+  sentMetadata?: Record<string, string>; // Post fields sent to WordPress, flattened for display
+  metadataChanges?: MetadataChange[]; // Against the last successful publish of the same document
+  error?: string;
+  durationMs?: number;
+  createdAt: string;
+}
+
+export interface MetadataChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+export interface PublishHistoryFilter {
+  documentId?: string;
+  runId?: number;
+  sheetRowIndex?: number;
+  wpPostId?: number;
+  limit?: number;
+}
+
+// Access levels, lowest to highest; see src/lib/roles.ts for what each may do
+export type Role = 'viewer' | 'editor' | 'publisher' | 'admin';
+
+// How a run was started: a signed-in user, an API key (webhooks, Apps Script) or the Vercel cron
+export type RunTrigger = 'session' | 'api-key' | 'cron';
+
+// One call to a publishing endpoint; individual publishes link back to it via runId
+export interface PublishRun {
+  id: number;
+  kind: 'publish' | 'auto-publish' | 'job-worker' | 'promotion';
+  trigger: RunTrigger;
+  triggeredBy?: string; // Session user's email
+  status: 'running' | 'completed' | 'failed';
+  rows: number[]; // Sheet rows touched
+  wpPostIds: number[];
+  succeeded: number;
+  failed: number;
+  message?: string;
   error?: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+// Recorded before a post is created so an interrupted or overlapping run
+// can find the post again instead of creating a duplicate
+export interface PublishIntent {
+  key: string; // Idempotency key, also stored as post meta in WordPress
+  documentId: string;
+  slug: string;
+  status: 'pending' | 'completed';
+  wpPostId?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// queued → running → completed; "failed" is a permanent error, "dead" ran out of retries
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'dead';
+
+export interface Job<T = unknown> {
+  id: number;
+  type: string;
+  payload: T;
+  status: JobStatus;
+  dedupeKey?: string; // At most one queued/running job per key
+  attempts: number;
+  maxAttempts: number;
+  runAt: string; // Not picked up before this time (backoff)
+  lockedUntil?: string; // Lease of the worker running it; expired leases are picked up again
+  lastError?: string;
+  result?: unknown;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MediaRecord {
+  site: string; // Media IDs and URLs only mean something on the site they were uploaded to
+  contentHash: string; // SHA-256 of the uploaded bytes
+  mediaId: number;
+  mediaUrl: string;
+  // Drive image the upload was made from, and its revision then
+  driveFileId?: string;
+  driveRevision?: string;
+  sourceUrl?: string; // Remote URL an inline image was downloaded from
+  createdAt: string;
+}
+
+// A Drive image processed for publishing (see image-processing.ts), cached
+// on the server so the browser only handles its ID and a thumbnail URL
+export interface ImageAsset {
+  id: string; // Drive file ID of the source image
+  sourceRevision?: string; // Drive revision it was made from
+  filename: string;
+  mimeType: string;
+  size: number; // Bytes
+  width?: number;
+  height?: number;
+  contentHash: string; // SHA-256 of the processed bytes
+  processedWith: string; // The processing settings it was made with
+  thumbnailMimeType: string;
+  createdAt: string;
+}
+
+export type ImageAssetVariant = 'full' | 'thumbnail';
+
+// An image in a Drive folder, offered by the featured image picker
+export interface DriveImage {
+  id: string;
+  name: string;
+  mimeType: string;
+  modifiedTime?: string;
+}
+
+// An image in a site's media library, offered by the featured image picker
+export interface MediaLibraryItem {
+  id: number;
+  url: string;
+  thumbnailUrl: string;
+  title: string;
+  altText: string;
+}
+
+// One proposed editorial revision of a top-level content block
+export interface EditorialChange {
+  index: number; // position in EditorialPassResult.blocks
+  original: string;
+  revised: string;
+}
+
+export interface EditorialPassResult {
+  blocks: string[];
+  changes: EditorialChange[];
+}
+
+// A WordPress term a dry run resolved; id is unset when it would be created
+export interface PreviewTerm {
+  name: string;
+  id?: number;
+}
+
+// What auto-publish would do for one sheet row, without writing anything
+export interface AutoPublishPreview {
+  row: number;
+  title: string;
+  sites: string[]; // Target sites; the rest of the preview is for the first one
+  action: 'create' | 'update';
+  wpPostId?: number;
+  slug?: string;
+  postDate?: string;
+  categories: PreviewTerm[]; // By path
+  tags: PreviewTerm[];
+  featuredImage?: {
+    filename?: string;
+    mimeType?: string;
+    sizeKb?: number;
+    error?: string;
+  };
+  inlineImages: number;
+  wordCount: number;
+  slugCollision?: {
+    postId: number;
+    postUrl: string;
+    status: string;
+  };
+  missingFields: string[]; // Content Repo columns left blank
+  aiFilledFields: MetadataField[]; // Blank fields the AI would fill when publishing
+  problems: string[]; // Would stop the row from publishing correctly
+  warnings: string[];
 }
 
 export interface SyncStatus {